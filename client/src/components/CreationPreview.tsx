@@ -0,0 +1,92 @@
+import { AlertTriangle } from 'lucide-react';
+import type { TaskCreationPreview } from 'shared/schema';
+
+interface CreationPreviewProps {
+    preview: TaskCreationPreview;
+}
+
+const formatJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+export const CreationPreview = ({ preview }: CreationPreviewProps) => {
+    const { fieldMapping } = preview;
+
+    return (
+        <div
+            className="border border-border rounded-lg p-4 space-y-4"
+            style={{ borderRadius: '12px' }}
+            data-testid="creation-preview"
+        >
+            <div className="font-medium">Предпросмотр запросов в JIRA (ничего не создано)</div>
+
+            {preview.warnings.length > 0 && (
+                <div className="border border-orange-200 bg-orange-50 rounded-lg p-3 text-sm text-orange-800 space-y-1" data-testid="creation-preview-warnings">
+                    {preview.warnings.map((warning, index) => (
+                        <div key={index} className="flex items-start">
+                            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 shrink-0" />
+                            {warning}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="text-sm text-muted-foreground space-y-1">
+                <div>Проект: <span className="font-medium text-foreground">{preview.projectKey}</span>, тип задачи: <span className="font-medium text-foreground">{fieldMapping.issueTypeId}</span></div>
+                <div>Майка: <span className="font-mono text-foreground">{fieldMapping.estimation}</span>, Story Points: <span className="font-mono text-foreground">{fieldMapping.storyPoints}</span></div>
+                <div>
+                    Варианты майки:{' '}
+                    <span className="font-mono text-foreground">
+                        {Object.entries(fieldMapping.estimationOptions).map(([size, id]) => `${size}=${id}`).join(', ') || '—'}
+                    </span>
+                </div>
+            </div>
+
+            {preview.epic && (
+                <details className="text-sm" data-testid="preview-epic">
+                    <summary className="cursor-pointer font-medium">Эпик: {preview.epic.summary}</summary>
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto mt-1" style={{ borderRadius: '8px' }}>
+                        {formatJson(preview.epic.payload)}
+                    </pre>
+                </details>
+            )}
+
+            <div className="space-y-2">
+                <div className="text-sm font-medium">Задачи ({preview.issues.length}):</div>
+                {preview.issues.map((issue, index) => (
+                    <details key={index} className="text-sm">
+                        <summary className="cursor-pointer">{issue.summary}</summary>
+                        <pre className="bg-muted p-3 rounded text-xs overflow-x-auto mt-1" style={{ borderRadius: '8px' }}>
+                            {formatJson(issue.payload)}
+                        </pre>
+                    </details>
+                ))}
+            </div>
+
+            {preview.links.length > 0 && (
+                <details className="text-sm">
+                    <summary className="cursor-pointer font-medium">Связи ({preview.links.length})</summary>
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto mt-1" style={{ borderRadius: '8px' }}>
+                        {formatJson(preview.links)}
+                    </pre>
+                </details>
+            )}
+
+            {preview.remoteLinks.length > 0 && (
+                <details className="text-sm">
+                    <summary className="cursor-pointer font-medium">Макеты ({preview.remoteLinks.length})</summary>
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto mt-1" style={{ borderRadius: '8px' }}>
+                        {formatJson(preview.remoteLinks)}
+                    </pre>
+                </details>
+            )}
+
+            {preview.sprints.length > 0 && (
+                <details className="text-sm">
+                    <summary className="cursor-pointer font-medium">Перенос в спринты ({preview.sprints.length})</summary>
+                    <pre className="bg-muted p-3 rounded text-xs overflow-x-auto mt-1" style={{ borderRadius: '8px' }}>
+                        {formatJson(preview.sprints)}
+                    </pre>
+                </details>
+            )}
+        </div>
+    );
+};
@@ -11,16 +11,19 @@ export const CurrentTask = ({ currentTask, jiraHost }: CurrentTaskProps) => {
         return <div className="text-sm text-gray-500">Портфель не загружен</div>;
     }
 
-    const currentTaskUrl = `${jiraHost || 'https://jira.hh.ru'}/browse/${currentTask.key}`;
+    // Without a known host the key is shown without a link
+    const currentTaskUrl = jiraHost ? `${jiraHost}/browse/${currentTask.key}` : undefined;
 
     return (
         <div className="flex items-center gap-3">
-            <a
-                href={currentTaskUrl}
-                target="_blank"
-            >
-                <Link className="h-4 w-4 text-muted-foreground" />
-            </a>
+            {currentTaskUrl && (
+                <a
+                    href={currentTaskUrl}
+                    target="_blank"
+                >
+                    <Link className="h-4 w-4 text-muted-foreground" />
+                </a>
+            )}
             <div>
                 <div className="font-medium">
                     <a
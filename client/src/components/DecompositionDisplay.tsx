@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from 'src/components/ui/card';
 import { Badge } from 'src/components/ui/badge';
-import { Loader2, CheckCircle, Bot, CheckCircle2 } from 'lucide-react';
+import { Button } from 'src/components/ui/button';
+import { Loader2, CheckCircle, Bot, CheckCircle2, Link2, X, AlertTriangle } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
@@ -8,10 +9,10 @@ import {
   TooltipTrigger,
 } from 'src/components/ui/tooltip';
 import { useState } from 'react';
-import type { DecompositionBlock } from 'shared/schema';
+import type { DecompositionBlock, FidelityWarning } from 'shared/schema';
 import { UseMutationResult } from '@tanstack/react-query';
 import { stripJiraMarkup } from 'src/lib/jira-markup';
-import { getEstimationBgColor, getRepositoryCategory, getRiskBgColor, fixJiraLists } from 'src/lib/utils.ts';
+import { getEstimationBgColor, getRepositoryCategory, getRiskBgColor, fixJiraLists, numConversion } from 'src/lib/utils.ts';
 // @ts-ignore TS7016
 import JiraToMd from 'jira2md';
 import { Segmented } from './ui/segmented';
@@ -19,16 +20,38 @@ import { Segmented } from './ui/segmented';
 interface DecompositionDisplayProps {
     blocks: DecompositionBlock[];
     parseMutation: UseMutationResult<any, any, string, unknown>;
+    onBlocksChange?: (blocks: DecompositionBlock[]) => void;
+    onCancel?: () => void; // Stops the parsing in progress
 }
 
 type RenderingMode = 'html' | 'text';
 
+const fidelityWarningLabels: Record<FidelityWarning['kind'], string> = {
+    missing: 'Пропущено',
+    altered: 'Изменено',
+    invented: 'Добавлено',
+};
+
 export const DecompositionDisplay = ({
     blocks,
     parseMutation,
+    onBlocksChange,
+    onCancel,
 }: DecompositionDisplayProps) => {
     const [renderMode, setRenderMode] = useState<RenderingMode>('html');
 
+    // Dependencies are indexes of other task blocks, shown as the same "#N" numbers as the blocks
+    const setDependencies = (index: number, dependsOn: number[]) => {
+        onBlocksChange?.(blocks.map((block, blockIndex) => blockIndex === index && block.taskInfo
+            ? { ...block, taskInfo: { ...block.taskInfo, dependsOn: [...dependsOn].sort((a, b) => a - b) } }
+            : block));
+    };
+
+    const getBlockLabel = (index: number) => {
+        const taskInfo = blocks[index]?.taskInfo;
+        return `#${index + 1}${taskInfo ? ` ${taskInfo.repository ? `[${taskInfo.repository}] ` : ''}${stripJiraMarkup(taskInfo.title)}` : ''}`;
+    };
+
     // Helper functions for LLM estimation display
     const shouldShowLLMEstimation = (taskInfo: any) => {
         return taskInfo?.estimationByLLM?.estimation && !taskInfo?.estimation;
@@ -59,6 +82,8 @@ export const DecompositionDisplay = ({
         return null;
     }
 
+    const blocksWithWarnings = blocks.filter((block) => block.fidelity?.warnings.length).length;
+
     const renderingModes: RenderingMode[] = ['html', 'text'];
     const renderingVariants = renderingModes.map((value) => ({
         value,
@@ -95,9 +120,32 @@ export const DecompositionDisplay = ({
                         style={{ borderRadius: '12px' }}
                     >
                         <Loader2 className="w-5 h-5 animate-spin text-primary mr-3" />
-                        <span className="text-sm font-medium">
+                        <span className="text-sm font-medium flex-1">
                             Обработка текста декомпозиции с помощью LLM
+                            {blocks.length > 0 && ` — получено ${blocks.length} ${numConversion(blocks.length, ['блок', 'блока', 'блоков'])}`}
                         </span>
+                        {onCancel && (
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={onCancel}
+                                style={{ borderRadius: '8px' }}
+                                data-testid="button-cancel-parsing"
+                            >
+                                Остановить
+                            </Button>
+                        )}
+                    </div>
+                )}
+
+                {!parseMutation.isPending && blocksWithWarnings > 0 && (
+                    <div
+                        className="flex items-center p-3 bg-amber-50 border border-amber-200 text-sm text-amber-800"
+                        style={{ borderRadius: '12px' }}
+                        data-testid="fidelity-summary"
+                    >
+                        <AlertTriangle className="w-4 h-4 mr-2 shrink-0" />
+                        Текст {blocksWithWarnings} из {blocks.length} блоков расходится с декомпозицией — проверьте отмеченные блоки
                     </div>
                 )}
 
@@ -146,6 +194,28 @@ export const DecompositionDisplay = ({
                                             )}
                                         </div>
 
+                                        {block.fidelity && block.fidelity.warnings.length > 0 && (
+                                            <div
+                                                className="p-3 mb-3 bg-amber-50 border border-amber-200 text-sm text-amber-800 space-y-1"
+                                                style={{ borderRadius: '8px' }}
+                                                data-testid={`fidelity-warnings-${index}`}
+                                            >
+                                                <div className="font-medium flex items-center">
+                                                    <AlertTriangle className="w-4 h-4 mr-1" />
+                                                    LLM изменила текст блока
+                                                    {block.fidelity.restored && ', он восстановлен по исходной декомпозиции'}
+                                                </div>
+                                                {block.fidelity.warnings.map((warning, warningIndex) => (
+                                                    <div key={warningIndex} className="break-words">
+                                                        <span className="font-medium">{fidelityWarningLabels[warning.kind]}:</span>{' '}
+                                                        {warning.kind === 'altered'
+                                                            ? <>«{warning.text}» → «{warning.llmText}»</>
+                                                            : <>«{warning.text}»</>}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+
                                         {block.taskInfo && (
                                             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-3">
                                                 <div
@@ -274,6 +344,59 @@ export const DecompositionDisplay = ({
                                             </div>
                                         )}
 
+                                        {block.type === 'task' && block.taskInfo && (() => {
+                                            const dependsOn = block.taskInfo.dependsOn || [];
+                                            const candidates = blocks
+                                                .map((candidate, candidateIndex) => ({ candidate, candidateIndex }))
+                                                .filter(({ candidate, candidateIndex }) => candidate.type === 'task' && candidateIndex !== index && !dependsOn.includes(candidateIndex));
+                                            if (dependsOn.length === 0 && (!onBlocksChange || parseMutation.isPending || candidates.length === 0)) {
+                                                return null;
+                                            }
+                                            return (
+                                                <div className="flex flex-wrap items-center gap-2 mb-3" data-testid={`dependencies-${index}`}>
+                                                    <span className="text-sm font-medium text-muted-foreground flex items-center">
+                                                        <Link2 className="w-4 h-4 mr-1" />
+                                                        Зависит от:
+                                                    </span>
+                                                    {dependsOn.map((dependency) => (
+                                                        <Badge
+                                                            key={dependency}
+                                                            className="text-xs bg-amber-100 text-amber-800 border-0 flex items-center space-x-1"
+                                                            data-testid={`dependency-${index}-${dependency}`}
+                                                        >
+                                                            <a href={`#block-${dependency + 1}`} className="hover:underline">{getBlockLabel(dependency)}</a>
+                                                            {onBlocksChange && !parseMutation.isPending && (
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => setDependencies(index, dependsOn.filter((item) => item !== dependency))}
+                                                                    title="Убрать зависимость"
+                                                                    data-testid={`button-remove-dependency-${index}-${dependency}`}
+                                                                >
+                                                                    <X className="w-3 h-3" />
+                                                                </button>
+                                                            )}
+                                                        </Badge>
+                                                    ))}
+                                                    {onBlocksChange && !parseMutation.isPending && candidates.length > 0 && (
+                                                        <select
+                                                            className="text-sm border border-border bg-background px-2 py-1 max-w-xs"
+                                                            style={{ borderRadius: '8px' }}
+                                                            value=""
+                                                            onChange={(event) => setDependencies(index, [...dependsOn, Number(event.target.value)])}
+                                                            data-testid={`select-dependency-${index}`}
+                                                        >
+                                                            <option value="" disabled>+ добавить задачу</option>
+                                                            {candidates.map(({ candidateIndex }) => (
+                                                                <option key={candidateIndex} value={candidateIndex}>
+                                                                    {getBlockLabel(candidateIndex)}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                    )}
+                                                </div>
+                                            );
+                                        })()}
+
                                         {block.type !== 'text' && <div className="font-semibold mb-1">Описание задачи:</div>}
                                         <div className="border-l-4 px-4 py-2 bg-gray-50">
                                             {renderMode === 'html' ? (
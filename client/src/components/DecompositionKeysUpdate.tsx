@@ -0,0 +1,98 @@
+import { useMutation } from '@tanstack/react-query';
+import { Button } from 'src/components/ui/button';
+import { FileDiff, Save } from 'lucide-react';
+import { useToast } from 'src/hooks/use-toast';
+import { api } from 'src/lib/api';
+import type { DecompositionIssueKey, DecompositionKeysResponse } from 'shared/schema';
+
+interface DecompositionKeysUpdateProps {
+    parentJiraKey: string;
+    tasks: DecompositionIssueKey[];
+}
+
+export const DecompositionKeysUpdate = ({ parentJiraKey, tasks }: DecompositionKeysUpdateProps) => {
+    const { toast } = useToast();
+
+    const previewMutation = useMutation({
+        mutationFn: () => api.previewDecompositionKeys({ parentJiraKey, tasks }),
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка предпросмотра',
+                description: error.message || 'Не удалось подготовить изменения декомпозиции',
+            });
+        },
+    });
+
+    const writeMutation = useMutation({
+        // The server writes only if the field is still the one the preview was made from
+        mutationFn: () => api.writeDecompositionKeys({ parentJiraKey, tasks, textHash: previewMutation.data?.textHash }),
+        onSuccess: (data) => {
+            previewMutation.reset();
+            toast({
+                title: data.updated ? 'Декомпозиция обновлена' : 'Декомпозиция не изменилась',
+                description: data.updated
+                    ? `Ключи задач проставлены в ${data.changes.length} заголовках ${parentJiraKey}`
+                    : 'Все ключи уже проставлены',
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка записи',
+                description: error.message || 'Не удалось обновить декомпозицию в JIRA',
+            });
+        },
+    });
+
+    const preview: DecompositionKeysResponse | undefined = previewMutation.data;
+
+    return (
+        <div className="space-y-3" data-testid="decomposition-keys-update">
+            <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={previewMutation.isPending || writeMutation.isPending}
+                style={{ borderRadius: '12px' }}
+                data-testid="button-preview-decomposition-keys"
+            >
+                <FileDiff className="w-4 h-4" />
+                {previewMutation.isPending ? 'Подготовка...' : 'Проставить ключи в декомпозиции'}
+            </Button>
+
+            {preview && (
+                <div className="border border-border rounded-lg p-4 space-y-3" style={{ borderRadius: '12px' }}>
+                    {preview.changes.length === 0 ? (
+                        <div className="text-sm text-muted-foreground">Все ключи уже проставлены, изменений нет</div>
+                    ) : (
+                        <div className="text-sm font-mono space-y-2 overflow-x-auto" data-testid="decomposition-keys-diff">
+                            {preview.changes.map((change) => (
+                                <div key={change.line}>
+                                    <div className="text-muted-foreground">Строка {change.line}:</div>
+                                    <div className="bg-red-50 text-red-800 px-2 whitespace-pre">- {change.before}</div>
+                                    <div className="bg-green-50 text-green-800 px-2 whitespace-pre">+ {change.after}</div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                    {preview.unmatched.length > 0 && (
+                        <div className="text-sm text-orange-700">
+                            Не найдены заголовки для: {preview.unmatched.map((task) => `${task.key} (${task.title})`).join(', ')}
+                        </div>
+                    )}
+                    {preview.changes.length > 0 && (
+                        <Button
+                            onClick={() => writeMutation.mutate()}
+                            disabled={writeMutation.isPending}
+                            style={{ backgroundColor: '#0070ff', color: 'white', borderRadius: '12px' }}
+                            data-testid="button-write-decomposition-keys"
+                        >
+                            <Save className="w-4 h-4" />
+                            {writeMutation.isPending ? 'Запись...' : `Записать в ${parentJiraKey}`}
+                        </Button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
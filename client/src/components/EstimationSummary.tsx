@@ -1,8 +1,13 @@
+import { useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from 'src/components/ui/card';
+import { Button } from 'src/components/ui/button';
 import { Input } from 'src/components/ui/input';
 import { Label } from 'src/components/ui/label';
 import { Estimation } from 'shared/types.ts';
-import { Bot, CheckCircle2 } from 'lucide-react';
+import { addWorkingDays, WORKING_DAYS_PER_SP } from 'shared/schedule.ts';
+import { Bot, CheckCircle2, Upload } from 'lucide-react';
+import { useToast } from 'src/hooks/use-toast';
+import { api } from 'src/lib/api';
 
 interface EstimationSummaryProps {
     estimation: Estimation | null;
@@ -11,6 +16,7 @@ interface EstimationSummaryProps {
     onAdditionalRiskChange: (percent: number) => void;
     parallelizationCoefficient: number;
     onParallelizationCoefficientChange: (coefficient: number) => void;
+    parentJiraKey?: string; // Куда записывать итоговую оценку
 }
 
 export const EstimationSummary = ({
@@ -20,7 +26,31 @@ export const EstimationSummary = ({
     onAdditionalRiskChange,
     parallelizationCoefficient,
     onParallelizationCoefficientChange,
+    parentJiraKey,
 }: EstimationSummaryProps) => {
+    const { toast } = useToast();
+
+    const pushEstimationMutation = useMutation({
+        mutationFn: (jiraKey: string) => api.pushEstimation({
+            parentJiraKey: jiraKey,
+            additionalRiskPercent,
+            estimation: estimation!,
+        }),
+        onSuccess: (data) => {
+            toast({
+                title: 'Оценка записана',
+                description: `${parentJiraKey}: ${data.storyPoints} SP${data.tShirt ? `, ${data.tShirt}` : ''}. Расчёт добавлен в комментарий`,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка записи оценки',
+                description: error.message || 'Не удалось записать оценку в JIRA',
+            });
+        },
+    });
+
     const calculateAdditionalRisks = () => {
         if (!estimation) return 0;
         const additional = (estimation.baseEstimation * additionalRiskPercent) / 100;
@@ -33,25 +63,13 @@ export const EstimationSummary = ({
     };
 
     const calculateWorkingDays = () => {
-        const rawDays = calculateTotal() * 2;
+        const rawDays = calculateTotal() * WORKING_DAYS_PER_SP;
         const acceleratedDays = rawDays / parallelizationCoefficient;
         return Math.ceil(acceleratedDays);
     };
 
     const calculateDeliveryDate = () => {
-        const workingDays = calculateWorkingDays();
-        const currentDate = new Date();
-        let deliveryDate = new Date(currentDate);
-        let daysAdded = 0;
-
-        while (daysAdded < workingDays) {
-            deliveryDate.setDate(deliveryDate.getDate() + 1);
-
-            // Skip weekends (Saturday = 6, Sunday = 0)
-            if (deliveryDate.getDay() !== 0 && deliveryDate.getDay() !== 6) {
-                daysAdded++;
-            }
-        }
+        const deliveryDate = addWorkingDays(new Date(), calculateWorkingDays());
 
         const dateString = deliveryDate.toLocaleDateString('ru-RU', {
             year: 'numeric',
@@ -247,6 +265,19 @@ export const EstimationSummary = ({
                     </Card>
                 </div>
 
+                {parentJiraKey && (
+                    <Button
+                        variant="outline"
+                        onClick={() => pushEstimationMutation.mutate(parentJiraKey)}
+                        disabled={pushEstimationMutation.isPending}
+                        style={{ borderRadius: '12px' }}
+                        data-testid="button-push-estimation"
+                    >
+                        <Upload className="w-4 h-4" />
+                        {pushEstimationMutation.isPending ? 'Запись...' : `Записать ${total} SP в ${parentJiraKey}`}
+                    </Button>
+                )}
+
                 {/* Task Statistics */}
                 <div className="border-t border-border pt-4 text-base space-y-1">
                     <div className="text-muted-foreground">
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from 'src/components/ui/button';
+import { Input } from 'src/components/ui/input';
+import { LogIn, LogOut } from 'lucide-react';
+import { useToast } from 'src/hooks/use-toast';
+import { api } from 'src/lib/api';
+import type { JiraConnectionStatus } from 'shared/schema';
+
+interface JiraLoginFormProps {
+    connection?: JiraConnectionStatus;
+    onChange: () => void;
+}
+
+export const JiraLoginForm = ({ connection, onChange }: JiraLoginFormProps) => {
+    const { toast } = useToast();
+    const [expanded, setExpanded] = useState(false);
+    const [user, setUser] = useState('');
+    const [token, setToken] = useState('');
+    const needsUser = connection?.authType === 'basic';
+
+    const loginMutation = useMutation({
+        mutationFn: () => api.loginToJira({ user: needsUser ? user.trim() : undefined, token: token.trim() }),
+        onSuccess: (data) => {
+            setToken('');
+            setExpanded(false);
+            toast({
+                title: 'Вход выполнен',
+                description: `Задачи будут создаваться от имени ${data.user?.displayName}`,
+            });
+            onChange();
+        },
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Не удалось войти в JIRA',
+                description: error.message || 'Проверьте логин и токен',
+            });
+        },
+    });
+
+    const logoutMutation = useMutation({
+        mutationFn: () => api.logoutFromJira(),
+        onSuccess: () => onChange(),
+    });
+
+    if (connection?.personal) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                style={{ borderRadius: '12px' }}
+                data-testid="button-jira-logout"
+            >
+                <LogOut className="w-4 h-4" />
+                Выйти из JIRA
+            </Button>
+        );
+    }
+
+    if (!expanded) {
+        return (
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setExpanded(true)}
+                style={{ borderRadius: '12px' }}
+                data-testid="button-jira-login-expand"
+            >
+                <LogIn className="w-4 h-4" />
+                Войти своим токеном
+            </Button>
+        );
+    }
+
+    return (
+        <form
+            className="space-y-2"
+            onSubmit={(event) => {
+                event.preventDefault();
+                loginMutation.mutate();
+            }}
+            data-testid="jira-login-form"
+        >
+            {needsUser && (
+                <Input
+                    placeholder="Логин JIRA"
+                    value={user}
+                    onChange={(event) => setUser(event.target.value)}
+                    autoComplete="username"
+                    data-testid="input-jira-user"
+                />
+            )}
+            <Input
+                type="password"
+                placeholder={needsUser ? 'API токен' : 'Personal access token'}
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+                autoComplete="current-password"
+                data-testid="input-jira-token"
+            />
+            <Button
+                type="submit"
+                size="sm"
+                disabled={!token.trim() || (needsUser && !user.trim()) || loginMutation.isPending}
+                style={{ backgroundColor: '#0070ff', color: 'white', borderRadius: '12px' }}
+                data-testid="button-jira-login"
+            >
+                <LogIn className="w-4 h-4" />
+                {loginMutation.isPending ? 'Проверка...' : 'Войти'}
+            </Button>
+        </form>
+    );
+};
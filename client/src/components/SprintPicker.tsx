@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { api } from 'src/lib/api';
+
+interface SprintPickerProps {
+    projectKey: string;
+    value?: number;
+    onChange: (sprintId?: number) => void;
+    testId: string;
+}
+
+const selectClassName = 'text-sm border border-border bg-background px-2 py-1 max-w-xs';
+
+/**
+ * Board and sprint of the project; a project with a single scrum board skips the board choice.
+ */
+export const SprintPicker = ({ projectKey, value, onChange, testId }: SprintPickerProps) => {
+    const [selectedBoardId, setSelectedBoardId] = useState<number | undefined>(undefined);
+
+    const boardsQuery = useQuery({
+        queryKey: ['jira-boards', api.getJiraInstance(), projectKey],
+        queryFn: () => api.getJiraBoards(projectKey),
+        staleTime: 5 * 60 * 1000,
+    });
+    const boards = boardsQuery.data || [];
+    const boardId = selectedBoardId ?? (boards.length === 1 ? boards[0].id : undefined);
+
+    const sprintsQuery = useQuery({
+        queryKey: ['jira-sprints', api.getJiraInstance(), boardId],
+        queryFn: () => api.getJiraSprints(boardId!),
+        enabled: boardId !== undefined,
+        staleTime: 60 * 1000,
+    });
+
+    if (boardsQuery.isLoading) {
+        return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+    }
+    if (boardsQuery.isError || boards.length === 0) {
+        return (
+            <span className="text-sm text-muted-foreground" data-testid={`${testId}-unavailable`}>
+                {boardsQuery.isError ? 'Доски недоступны' : 'Нет scrum-досок'}
+            </span>
+        );
+    }
+
+    return (
+        <span className="inline-flex flex-wrap items-center gap-2" data-testid={testId}>
+            {boards.length > 1 && (
+                <select
+                    className={selectClassName}
+                    style={{ borderRadius: '8px' }}
+                    value={boardId ?? ''}
+                    onChange={(event) => {
+                        setSelectedBoardId(event.target.value ? Number(event.target.value) : undefined);
+                        onChange(undefined);
+                    }}
+                    data-testid={`${testId}-board`}
+                >
+                    <option value="">Доска...</option>
+                    {boards.map((board) => (
+                        <option key={board.id} value={board.id}>{board.name}</option>
+                    ))}
+                </select>
+            )}
+            {boardId !== undefined && (
+                <select
+                    className={selectClassName}
+                    style={{ borderRadius: '8px' }}
+                    value={value ?? ''}
+                    onChange={(event) => onChange(event.target.value ? Number(event.target.value) : undefined)}
+                    disabled={sprintsQuery.isLoading}
+                    data-testid={`${testId}-sprint`}
+                >
+                    <option value="">Без спринта</option>
+                    {(sprintsQuery.data || []).map((sprint) => (
+                        <option key={sprint.id} value={sprint.id}>
+                            {sprint.name}{sprint.state === 'active' ? ' (активный)' : ''}
+                        </option>
+                    ))}
+                </select>
+            )}
+        </span>
+    );
+};
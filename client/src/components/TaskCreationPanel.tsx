@@ -1,76 +1,227 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from 'src/components/ui/card';
 import { Button } from 'src/components/ui/button';
 import { Badge } from 'src/components/ui/badge';
-import { BriefcaseBusiness, CheckCircle, ExternalLink } from 'lucide-react';
+import { BriefcaseBusiness, CheckCircle, ExternalLink, Eye, Settings2, Undo2 } from 'lucide-react';
 import { useToast } from 'src/hooks/use-toast';
 import { api } from 'src/lib/api';
 import { stripJiraMarkup } from '../lib/jira-markup';
-import type { DecompositionBlock, JiraTask, TaskCreationResponse } from 'shared/schema';
+import type {
+    CreateTaskRequest,
+    DecompositionBlock,
+    JiraTask,
+    MockupLink,
+    RollbackResponse,
+    TaskCreationPreview,
+    TaskCreationProgress,
+    TaskCreationResponse,
+    TaskCreationStatus,
+    TaskJiraFields
+} from 'shared/schema';
 import { Estimation } from 'shared/types.ts';
+import { buildSchedule } from 'shared/schedule.ts';
+import { extractMockupLinks, mergeMockupLinks } from 'shared/mockups.ts';
 import { CurrentTask } from 'src/components/CurrentTask.tsx';
-import { getEstimationBgColor, getRepositoryCategory } from 'src/lib/utils.ts';
+import { getCategoryJiraFields, getEstimationBgColor, getRepositoryCategory, usesParentMockups } from 'src/lib/utils.ts';
+import { Segmented } from 'src/components/ui/segmented.tsx';
+import { DecompositionKeysUpdate } from 'src/components/DecompositionKeysUpdate.tsx';
+import { CreationPreview } from 'src/components/CreationPreview.tsx';
+import { TaskFieldsEditor } from 'src/components/TaskFieldsEditor.tsx';
+import { SprintPicker } from 'src/components/SprintPicker.tsx';
 
 interface TaskCreationPanelProps {
     sessionId: string;
     estimation: Estimation;
     additionalRiskPercent: number;
+    parallelizationCoefficient: number;
     blocks?: DecompositionBlock[]; // DecompositionBlocks for task creation
     parentJiraTask: JiraTask | null; // For linking created tasks
+    parentMockups?: MockupLink[]; // Links from the parent's mockup field
     jiraHost?: string;
+    jiraProjects?: string[];
+    defaultJiraProject?: string;
+    repositoryCategories?: Record<string, any>; // Default Jira fields per category
+    epicEnabled?: boolean; // An epic between the parent and the tasks is configured
 }
 
 const getTaskSummary = (task: DecompositionBlock) => `${task.taskInfo!.repository ? `[${task.taskInfo!.repository}] ` : ''}${stripJiraMarkup(task.taskInfo!.title)}`
 
+// "2025-10-21" -> "21.10"
+const formatShortDate = (date: string) => date.split('-').slice(1).reverse().join('.');
+
+const taskStatusLabels: Record<TaskCreationStatus, { label: string; className: string }> = {
+    planned: { label: 'будет создана', className: 'bg-blue-100 text-blue-800' },
+    created: { label: 'создана', className: 'bg-green-100 text-green-800' },
+    existing: { label: 'уже была', className: 'bg-gray-100 text-gray-700' },
+    failed: { label: 'ошибка', className: 'bg-red-100 text-red-800' },
+};
+
 export const TaskCreationPanel = ({
     sessionId,
     estimation,
     additionalRiskPercent,
+    parallelizationCoefficient,
     blocks = [],
     parentJiraTask,
+    parentMockups = [],
     jiraHost,
+    jiraProjects = [],
+    defaultJiraProject,
+    repositoryCategories,
+    epicEnabled = false,
 }: TaskCreationPanelProps) => {
+    const [selectedProject, setSelectedProject] = useState<string | undefined>(undefined);
     const [createdTasks, setCreatedTasks] = useState<TaskCreationResponse['createdTasks']>([]);
+    const [taskResults, setTaskResults] = useState<TaskCreationResponse['taskResults']>([]);
     const [errors, setErrors] = useState<string[]>([]);
+    const [preview, setPreview] = useState<TaskCreationPreview | null>(null);
+    const [progress, setProgress] = useState<TaskCreationProgress | null>(null);
+    const [batchId, setBatchId] = useState<string | undefined>(undefined);
+    const [rollbackResult, setRollbackResult] = useState<RollbackResponse | null>(null);
+    const [fieldOverrides, setFieldOverrides] = useState<Record<number, TaskJiraFields>>({});
+    const [editingFieldsIndex, setEditingFieldsIndex] = useState<number | null>(null);
+    const [sprintId, setSprintId] = useState<number | undefined>(undefined);
+    const [sprintsByCategory, setSprintsByCategory] = useState(false);
+    const [categorySprints, setCategorySprints] = useState<Record<string, number | undefined>>({});
+    const [writeDates, setWriteDates] = useState(false);
+    const [createEpic, setCreateEpic] = useState(false);
+    const [epic, setEpic] = useState<TaskCreationResponse['epic']>(undefined);
     const { toast } = useToast();
 
+    // Overrides are bound to task indexes, a new parsing result starts from the category defaults
+    useEffect(() => {
+        setFieldOverrides({});
+        setEditingFieldsIndex(null);
+    }, [sessionId]);
+
     // Extract tasks from blocks
     const tasks = blocks
         .filter((block) => block.type === 'task');
 
+    // Created and already existing issues can be referenced from the decomposition headers
+    const issueKeys = taskResults.flatMap((result, index) => result.key && tasks[index]?.taskInfo
+        ? [{ repository: tasks[index].taskInfo!.repository, title: tasks[index].taskInfo!.title, key: result.key }]
+        : []);
+
+    const projectKey = selectedProject || defaultJiraProject;
+
+    // Sprints belong to the boards of the selected project
+    useEffect(() => {
+        setSprintId(undefined);
+        setCategorySprints({});
+    }, [projectKey]);
+
+    const taskCategories = Array.from(new Set(tasks.map((task) => getRepositoryCategory(task.taskInfo?.repository || null).label)));
+    const getTaskSprintId = (task: DecompositionBlock) => sprintsByCategory
+        ? categorySprints[getRepositoryCategory(task.taskInfo?.repository || null).label]
+        : undefined;
+    const projectVariants = jiraProjects.map((project) => ({
+        value: project,
+        label: project,
+    }));
+
+    const getTaskFields = (index: number): TaskJiraFields => ({
+        ...getCategoryJiraFields(tasks[index]?.taskInfo?.repository || null, repositoryCategories),
+        ...fieldOverrides[index],
+    });
+
+    const describeTaskFields = (fields: TaskJiraFields) => [
+        ...(fields.components || []),
+        ...(fields.labels || []).map((label) => `#${label}`),
+        fields.assignee && `@${fields.assignee}`,
+        fields.fixVersion,
+    ].filter(Boolean).join(' · ');
+
+    // A task gets the links from its own description and, for UI categories, the parent's mockups
+    const getTaskMockups = (task: DecompositionBlock): MockupLink[] => mergeMockupLinks(
+        extractMockupLinks(task.content),
+        usesParentMockups(task.taskInfo?.repository || null, repositoryCategories) ? parentMockups : []
+    );
+
+    // dependsOn references blocks of the decomposition, the request references its own tasks
+    const toTaskIndexes = (blockIndexes: number[] = []) => blockIndexes
+        .map((blockIndex) => tasks.indexOf(blocks[blockIndex]))
+        .filter((taskIndex) => taskIndex !== -1);
+
+    // Planned dates follow the order of the decomposition, the same way as the delivery date in the summary
+    const schedule = buildSchedule(tasks.map((block) => ({
+        storyPoints: (block.taskInfo?.estimationSP || 0) + (block.taskInfo?.riskSP || 0) || null,
+        dependsOn: toTaskIndexes(block.taskInfo?.dependsOn),
+    })), { additionalRiskPercent, parallelizationCoefficient });
+
+    const buildCreateRequest = (parentJiraKey: string, dryRun: boolean): CreateTaskRequest => ({
+        sessionId,
+        additionalRiskPercent,
+        tasks: tasks.map((block, index) => ({
+            ...getTaskFields(index),
+            summary: getTaskSummary(block),
+            description: block.content,
+            estimation: block.taskInfo?.estimation || undefined,
+            storyPoints: block.taskInfo?.estimationSP || undefined,
+            dependsOn: toTaskIndexes(block.taskInfo?.dependsOn),
+            sprintId: getTaskSprintId(block),
+            startDate: writeDates ? schedule[index]?.startDate : undefined,
+            dueDate: writeDates ? schedule[index]?.dueDate : undefined,
+            mockups: getTaskMockups(block),
+        })),
+        parentJiraKey,
+        projectKey,
+        dryRun,
+        sprintId: sprintsByCategory ? undefined : sprintId,
+        createEpic: epicEnabled && createEpic,
+    });
+
+    const previewMutation = useMutation({
+        mutationFn: (parentJiraKey: string) => api.createTasks(buildCreateRequest(parentJiraKey, true)),
+        onSuccess: (data) => {
+            setTaskResults(data.taskResults);
+            setPreview(data.preview || null);
+        },
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка предпросмотра',
+                description: error.message || 'Не удалось подготовить запросы',
+            });
+        },
+    });
+
     const createTasksMutation = useMutation({
         mutationFn: (parentJiraKey: string) => {
-            return api.createTasks({
-                sessionId,
-                additionalRiskPercent,
-                tasks: tasks.map((block) => ({
-                    summary: getTaskSummary(block),
-                    description: block.content,
-                    estimation: block.taskInfo?.estimation || undefined,
-                    storyPoints: block.taskInfo?.estimationSP || undefined
-                })),
-                parentJiraKey,
-            });
+            setProgress(null);
+            return api.createTasks(buildCreateRequest(parentJiraKey, false), setProgress);
         },
         onSuccess: (data) => {
+            setProgress(null);
+            setPreview(null);
+            setRollbackResult(null);
+            setBatchId(data.batchId);
             setCreatedTasks(data.createdTasks);
+            setEpic(data.epic);
+            setTaskResults(data.taskResults);
             setErrors(data.errors);
 
+            const existingCount = data.taskResults.filter((result) => result.status === 'existing').length;
+            const existingInfo = existingCount > 0 ? `, ещё ${existingCount} уже были в JIRA` : '';
+            const retriesInfo = data.retries ? `. JIRA отвечала с перебоями, повторено запросов: ${data.retries}` : '';
+            const warningsInfo = data.warnings?.length ? `. ${data.warnings.join('. ')}` : '';
+
             if (data.success) {
                 toast({
-                    title: 'Задачи созданы!',
-                    description: `Успешно создано ${data.createdTasks.length} задач в JIRA`,
+                    title: data.createdTasks.length > 0 ? 'Задачи созданы!' : 'Новых задач нет',
+                    description: `Успешно создано ${data.createdTasks.length} задач в JIRA${existingInfo}${retriesInfo}${warningsInfo}`,
                 });
             } else {
                 toast({
                     variant: 'destructive',
                     title: 'Частичная ошибка',
-                    description: `Создано ${data.createdTasks.length} из ${estimation.taskCount} задач`,
+                    description: `Создано ${data.createdTasks.length} из ${estimation.taskCount} задач${existingInfo}${retriesInfo}${warningsInfo}`,
                 });
             }
         },
         onError: (error: any) => {
+            setProgress(null);
             setErrors([error.message || 'Ошибка при создании задач']);
             toast({
                 variant: 'destructive',
@@ -80,6 +231,42 @@ export const TaskCreationPanel = ({
         },
     });
 
+    const rollbackMutation = useMutation({
+        mutationFn: (id: string) => api.rollbackBatch(id),
+        onSuccess: (data) => {
+            setRollbackResult(data);
+            setCreatedTasks((tasks) => tasks.filter((task) => !data.rolledBack.includes(task.key)));
+            setEpic((current) => current && data.rolledBack.includes(current.key) ? undefined : current);
+            setTaskResults([]);
+            if (data.success) {
+                setBatchId(undefined);
+            }
+
+            toast({
+                variant: data.success ? undefined : 'destructive',
+                title: data.success ? 'Пакет откачен' : 'Откат выполнен частично',
+                description: `${data.mode === 'delete' ? 'Удалено' : 'Отменено'} ${data.rolledBack.length} задач${data.failed.length > 0 ? `, не удалось: ${data.failed.length}` : ''}`,
+            });
+        },
+        onError: (error: any) => {
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка отката',
+                description: error.message || 'Не удалось откатить созданные задачи',
+            });
+        },
+    });
+
+    // The batch may hold only the epic when every task failed, so the confirmation lists the whole batch
+    const handleRollback = () => {
+        const batchKeys = [...(epic ? [epic.key] : []), ...createdTasks.map((task) => task.key)];
+        const epicInfo = epic ? `эпик ${epic.key}${createdTasks.length > 0 ? ' и ' : ''}` : '';
+        const tasksInfo = createdTasks.length > 0 || !epic ? `${createdTasks.length} созданных задач` : '';
+        if (batchId && window.confirm(`Откатить ${epicInfo}${tasksInfo}?\n${batchKeys.join(', ')}`)) {
+            rollbackMutation.mutate(batchId);
+        }
+    };
+
     const handleCreateTasks = () => {
         if (parentJiraTask) {
             createTasksMutation.mutate(parentJiraTask.key);
@@ -107,24 +294,178 @@ export const TaskCreationPanel = ({
                         const risk = task.taskInfo?.estimation
                             ? task.taskInfo?.risk || null
                             : task.taskInfo?.estimationByLLM?.risk || null;
+                        const fields = getTaskFields(index);
+                        const mockups = getTaskMockups(task);
                         return (
-                            <div key={index} className="font-medium text-sm space-x-2">
-                                <span
-                                    className={`${getEstimationBgColor(estimation)} text-black px-1 py-0 rounded text-md text-center w-8 inline-block border-gray-200 border`}>
-                                    {estimation || '?'}{risk ? '+' : null}
-                                </span>
-                                <Badge
-                                    className={`text-sm ${category.bg} ${category.text} border-0`}
-                                >
-                                    {category.label}
-                                </Badge>
-                                <span>
-                                    {getTaskSummary(task)}
-                                </span>
+                            <div key={index}>
+                                <div className="font-medium text-sm space-x-2">
+                                    <span
+                                        className={`${getEstimationBgColor(estimation)} text-black px-1 py-0 rounded text-md text-center w-8 inline-block border-gray-200 border`}>
+                                        {estimation || '?'}{risk ? '+' : null}
+                                    </span>
+                                    <Badge
+                                        className={`text-sm ${category.bg} ${category.text} border-0`}
+                                    >
+                                        {category.label}
+                                    </Badge>
+                                    <span>
+                                        {getTaskSummary(task)}
+                                    </span>
+                                    {schedule[index] && (
+                                        <span
+                                            className="text-xs text-muted-foreground whitespace-nowrap"
+                                            title={`${schedule[index]!.workingDays} раб. дн.`}
+                                            data-testid={`task-dates-${index}`}
+                                        >
+                                            {formatShortDate(schedule[index]!.startDate)}–{formatShortDate(schedule[index]!.dueDate)}
+                                        </span>
+                                    )}
+                                    {taskResults[index] && (
+                                        <span
+                                            className={`px-1 rounded text-xs ${taskStatusLabels[taskResults[index].status].className}`}
+                                            title={taskResults[index].error}
+                                            data-testid={`task-status-${index}`}
+                                        >
+                                            {taskStatusLabels[taskResults[index].status].label}
+                                            {taskResults[index].key && (
+                                                <>
+                                                    {': '}
+                                                    <a href={taskResults[index].url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                                                        {taskResults[index].key}
+                                                    </a>
+                                                </>
+                                            )}
+                                        </span>
+                                    )}
+                                    {taskResults[index]?.linkError && (
+                                        <span
+                                            className="px-1 rounded text-xs bg-red-100 text-red-700"
+                                            title={taskResults[index].linkError}
+                                            data-testid={`task-link-error-${index}`}
+                                        >
+                                            не связана
+                                        </span>
+                                    )}
+                                    {taskResults[index]?.sprintError && (
+                                        <span
+                                            className="px-1 rounded text-xs bg-red-100 text-red-700"
+                                            title={taskResults[index].sprintError}
+                                            data-testid={`task-sprint-error-${index}`}
+                                        >
+                                            не в спринте
+                                        </span>
+                                    )}
+                                    {taskResults[index]?.mockupError && (
+                                        <span
+                                            className="px-1 rounded text-xs bg-red-100 text-red-700"
+                                            title={taskResults[index].mockupError}
+                                            data-testid={`task-mockup-error-${index}`}
+                                        >
+                                            без макетов
+                                        </span>
+                                    )}
+                                    <span className="text-xs text-muted-foreground" data-testid={`task-fields-${index}`}>
+                                        {describeTaskFields(fields)}
+                                    </span>
+                                    <button
+                                        type="button"
+                                        className="text-muted-foreground hover:text-foreground align-middle"
+                                        onClick={() => setEditingFieldsIndex(editingFieldsIndex === index ? null : index)}
+                                        title="Исполнитель, компоненты, метки, версия"
+                                        data-testid={`button-edit-task-fields-${index}`}
+                                    >
+                                        <Settings2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                                {mockups.length > 0 && (
+                                    <div className="text-xs text-muted-foreground pl-10" data-testid={`task-mockups-${index}`}>
+                                        Макеты:{' '}
+                                        {mockups.map((link, linkIndex) => (
+                                            <span key={link.url}>
+                                                {linkIndex > 0 && ', '}
+                                                <a href={link.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                                                    {link.title}
+                                                </a>
+                                            </span>
+                                        ))}
+                                    </div>
+                                )}
+                                {editingFieldsIndex === index && projectKey && (
+                                    <TaskFieldsEditor
+                                        projectKey={projectKey}
+                                        value={fields}
+                                        defaults={getCategoryJiraFields(task.taskInfo?.repository || null, repositoryCategories)}
+                                        onChange={(value) => setFieldOverrides((overrides) => ({ ...overrides, [index]: value }))}
+                                        onReset={() => setFieldOverrides(({ [index]: _, ...overrides }) => overrides)}
+                                    />
+                                )}
                             </div>
                         );
                     })}
                 </div>
+                {/* Target Project Selection */}
+                {projectVariants.length > 1 && projectKey && (
+                    <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">Проект:</span>
+                        <Segmented variants={projectVariants} value={projectKey} onChange={setSelectedProject} />
+                    </div>
+                )}
+                {/* Planned Dates */}
+                <label className="text-sm text-muted-foreground inline-flex items-center gap-2">
+                    <input
+                        type="checkbox"
+                        checked={writeDates}
+                        onChange={(event) => setWriteDates(event.target.checked)}
+                        data-testid="checkbox-write-dates"
+                    />
+                    Проставить плановые даты начала и срок задач
+                </label>
+                {/* Epic */}
+                {epicEnabled && (
+                    <label className="text-sm text-muted-foreground inline-flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={createEpic}
+                            onChange={(event) => setCreateEpic(event.target.checked)}
+                            data-testid="checkbox-create-epic"
+                        />
+                        Создать эпик по родительской задаче и добавить в него задачи
+                    </label>
+                )}
+                {/* Target Sprint */}
+                {projectKey && (
+                    <div className="space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm text-muted-foreground">Спринт:</span>
+                            {!sprintsByCategory && (
+                                <SprintPicker key={projectKey} projectKey={projectKey} value={sprintId} onChange={setSprintId} testId="sprint-picker" />
+                            )}
+                            {taskCategories.length > 1 && (
+                                <label className="text-sm text-muted-foreground inline-flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={sprintsByCategory}
+                                        onChange={(event) => setSprintsByCategory(event.target.checked)}
+                                        data-testid="checkbox-sprints-by-category"
+                                    />
+                                    по категориям
+                                </label>
+                            )}
+                        </div>
+                        {sprintsByCategory && taskCategories.map((category) => (
+                            <div key={category} className="flex flex-wrap items-center gap-2 pl-4">
+                                <span className="text-sm text-muted-foreground">{category}:</span>
+                                <SprintPicker
+                                    key={projectKey}
+                                    projectKey={projectKey}
+                                    value={categorySprints[category]}
+                                    onChange={(value) => setCategorySprints((sprints) => ({ ...sprints, [category]: value }))}
+                                    testId={`sprint-picker-${category}`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
                 {/* Action Buttons */}
                 <div className="space-y-2">
                     <div className="flex flex-col sm:flex-row gap-3">
@@ -144,7 +485,36 @@ export const TaskCreationPanel = ({
                             <BriefcaseBusiness className="w-4 h-4" />
                             {createTasksMutation.isPending ? 'Создание...' : 'Завести задачи в JIRA'}
                         </Button>
+                        <Button
+                            variant="outline"
+                            className="px-6 py-3"
+                            onClick={() => parentJiraTask && previewMutation.mutate(parentJiraTask.key)}
+                            disabled={!parentJiraTask || previewMutation.isPending || createTasksMutation.isPending}
+                            style={{
+                                height: '48px',
+                                borderRadius: '12px',
+                                fontSize: '16px'
+                            }}
+                            data-testid="button-preview-tasks"
+                        >
+                            <Eye className="w-4 h-4" />
+                            {previewMutation.isPending ? 'Подготовка...' : 'Предпросмотр'}
+                        </Button>
                     </div>
+                    {createTasksMutation.isPending && progress && (
+                        <div className="space-y-1" data-testid="creation-progress">
+                            <div className="text-sm text-muted-foreground">
+                                Обработано {progress.processed} из {progress.total} задач (порция {progress.chunk} из {progress.chunks})
+                                {progress.failed > 0 && <span className="text-red-600">, ошибок: {progress.failed}</span>}
+                            </div>
+                            <div className="h-2 bg-muted rounded-full overflow-hidden">
+                                <div
+                                    className="h-full"
+                                    style={{ width: `${Math.round(progress.processed / progress.total * 100)}%`, backgroundColor: '#0070ff' }}
+                                />
+                            </div>
+                        </div>
+                    )}
                     {!parentJiraTask && (
                         <div className="text-sm mt-0 text-red-600">
                             Укажите родительскую задачу JIRA для создания подзадач.
@@ -152,6 +522,8 @@ export const TaskCreationPanel = ({
                     )}
                 </div>
 
+                {preview && <CreationPreview preview={preview} />}
+
                 {/* Success State */}
                 {createdTasks.length > 0 && (
                     <div
@@ -164,6 +536,21 @@ export const TaskCreationPanel = ({
                             <span className="font-medium text-green-800">Задачи успешно созданы!</span>
                         </div>
                         <div className="text-md text-green-700">
+                            {epic && (
+                                <div className="mb-2">
+                                    Эпик:{' '}
+                                    <a
+                                        href={epic.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-blue-600 hover:underline inline-flex items-center"
+                                        data-testid={`link-created-epic-${epic.key}`}
+                                    >
+                                        {epic.key}: {epic.summary}
+                                        <ExternalLink className="w-3 h-3 ml-1" />
+                                    </a>
+                                </div>
+                            )}
                             <ul className="space-y-1">
                                 {createdTasks.map((task) => (
                                     <li key={task.id}>
@@ -184,6 +571,39 @@ export const TaskCreationPanel = ({
                     </div>
                 )}
 
+                {parentJiraTask && issueKeys.length > 0 && (
+                    <DecompositionKeysUpdate parentJiraKey={parentJiraTask.key} tasks={issueKeys} />
+                )}
+
+                {/* Rollback */}
+                {batchId && (
+                    <Button
+                        variant="outline"
+                        onClick={handleRollback}
+                        disabled={rollbackMutation.isPending}
+                        className={errors.length > 0 ? 'border-red-300 text-red-700' : undefined}
+                        style={{ borderRadius: '12px' }}
+                        data-testid="button-rollback-batch"
+                    >
+                        <Undo2 className="w-4 h-4" />
+                        {rollbackMutation.isPending ? 'Откат...' : 'Откатить этот пакет'}
+                    </Button>
+                )}
+                {rollbackResult && (
+                    <div className="text-sm space-y-1" data-testid="rollback-result">
+                        {rollbackResult.rolledBack.length > 0 && (
+                            <div className="text-muted-foreground">
+                                {rollbackResult.mode === 'delete' ? 'Удалены' : 'Отменены'}: {rollbackResult.rolledBack.join(', ')}
+                            </div>
+                        )}
+                        {rollbackResult.failed.map((failure) => (
+                            <div key={failure.key} className="text-red-700">
+                                Не удалось откатить {failure.key}: {failure.error}
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Error State */}
                 {errors.length > 0 && (
                     <div
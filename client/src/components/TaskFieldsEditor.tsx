@@ -0,0 +1,129 @@
+import { useId, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Input } from 'src/components/ui/input';
+import { Button } from 'src/components/ui/button';
+import { RotateCcw } from 'lucide-react';
+import { api } from 'src/lib/api';
+import type { TaskJiraFields } from 'shared/schema';
+
+interface TaskFieldsEditorProps {
+    projectKey: string;
+    value: TaskJiraFields;
+    defaults: TaskJiraFields;
+    onChange: (value: TaskJiraFields) => void;
+    onReset: () => void;
+}
+
+// "a, b c" -> ['a', 'b c']; Jira labels can't contain spaces, so they become dashes
+const parseList = (text: string, isLabel = false): string[] => text
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => isLabel ? item.replace(/\s+/g, '-') : item);
+
+export const TaskFieldsEditor = ({ projectKey, value, defaults, onChange, onReset }: TaskFieldsEditorProps) => {
+    const listId = useId();
+    // Comma-separated lists are edited as text, otherwise a trailing comma would be removed while typing
+    const [components, setComponents] = useState((value.components || []).join(', '));
+    const [labels, setLabels] = useState((value.labels || []).join(', '));
+    const assigneeQuery = (value.assignee || '').trim();
+
+    const usersQuery = useQuery({
+        queryKey: ['jira-users', api.getJiraInstance(), projectKey, assigneeQuery],
+        queryFn: () => api.searchJiraUsers(projectKey, assigneeQuery),
+        enabled: assigneeQuery.length >= 2,
+        staleTime: 60 * 1000,
+    });
+
+    const versionsQuery = useQuery({
+        queryKey: ['jira-versions', api.getJiraInstance(), projectKey],
+        queryFn: () => api.searchJiraVersions(projectKey, ''),
+        staleTime: 5 * 60 * 1000,
+    });
+
+    const handleReset = () => {
+        setComponents((defaults.components || []).join(', '));
+        setLabels((defaults.labels || []).join(', '));
+        onReset();
+    };
+
+    return (
+        <div
+            className="grid grid-cols-1 md:grid-cols-2 gap-2 p-3 mt-1 bg-muted/30"
+            style={{ borderRadius: '12px' }}
+            data-testid="task-fields-editor"
+        >
+            <label className="text-xs text-muted-foreground space-y-1">
+                <span>Исполнитель</span>
+                <Input
+                    className="h-8"
+                    list={`${listId}-users`}
+                    placeholder="Начните вводить имя"
+                    value={value.assignee || ''}
+                    onChange={(event) => onChange({ ...value, assignee: event.target.value || undefined })}
+                    data-testid="input-task-assignee"
+                />
+                <datalist id={`${listId}-users`}>
+                    {(usersQuery.data || []).map((user) => (
+                        <option key={user.id} value={user.id}>
+                            {user.displayName}{user.email ? ` (${user.email})` : ''}
+                        </option>
+                    ))}
+                </datalist>
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+                <span>Fix version</span>
+                <Input
+                    className="h-8"
+                    list={`${listId}-versions`}
+                    placeholder={versionsQuery.isError ? 'Версии недоступны' : 'Версия проекта'}
+                    value={value.fixVersion || ''}
+                    onChange={(event) => onChange({ ...value, fixVersion: event.target.value || undefined })}
+                    data-testid="input-task-fix-version"
+                />
+                <datalist id={`${listId}-versions`}>
+                    {(versionsQuery.data || []).map((version) => (
+                        <option key={version.id} value={version.name}>
+                            {version.released ? 'выпущена' : version.releaseDate || ''}
+                        </option>
+                    ))}
+                </datalist>
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+                <span>Компоненты (через запятую)</span>
+                <Input
+                    className="h-8"
+                    value={components}
+                    onChange={(event) => {
+                        setComponents(event.target.value);
+                        onChange({ ...value, components: parseList(event.target.value) });
+                    }}
+                    data-testid="input-task-components"
+                />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+                <span>Метки (через запятую)</span>
+                <Input
+                    className="h-8"
+                    value={labels}
+                    onChange={(event) => {
+                        setLabels(event.target.value);
+                        onChange({ ...value, labels: parseList(event.target.value, true) });
+                    }}
+                    data-testid="input-task-labels"
+                />
+            </label>
+            <div className="md:col-span-2">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleReset}
+                    data-testid="button-task-fields-reset"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                    По умолчанию для категории
+                </Button>
+            </div>
+        </div>
+    );
+};
@@ -8,23 +8,21 @@ import { Textarea } from 'src/components/ui/textarea';
 import { RefreshCw, Download, FileText, Link } from 'lucide-react';
 import { useToast } from 'src/hooks/use-toast';
 import { api } from 'src/lib/api';
-import type { JiraTask } from 'shared/schema';
+import type { JiraInstanceInfo, JiraTask, LLMProviderInfo, MockupLink } from 'shared/schema';
+import type { LLMProvider } from 'shared/types.ts';
 import { CurrentTask } from 'src/components/CurrentTask.tsx';
 import { Segmented, SegmentedVariants } from 'src/components/ui/segmented.tsx';
 
-type LLMProvider = 'openai' | 'anthropic' | 'regexp';
-export interface ProviderInfo {
-    name: LLMProvider;
-    available: boolean;
-}
-
 interface TaskInputFormProps {
-    onTaskLoaded: (task: JiraTask, decompositionText?: string) => void;
+    onTaskLoaded: (task: JiraTask, decompositionText?: string, mockups?: MockupLink[]) => void;
     onTextProvided: (decompositionText: string, parentJiraKey?: string, provider?: LLMProvider) => void;
     currentTask: JiraTask | null;
     onRefresh: () => void;
-    availableProviders?: ProviderInfo[];
+    availableProviders?: LLMProviderInfo[];
     jiraHost?: string;
+    jiraInstances?: JiraInstanceInfo[];
+    jiraInstance?: string;
+    onJiraInstanceChange: (instance: string) => void;
     parseMutation: UseMutationResult<any, any, string, unknown>;
 }
 
@@ -65,8 +63,11 @@ export const TaskInputForm = ({
     onTextProvided,
     currentTask,
     onRefresh,
-    availableProviders,
+    availableProviders = [],
     jiraHost,
+    jiraInstances = [],
+    jiraInstance,
+    onJiraInstanceChange,
     parseMutation,
 }: TaskInputFormProps) => {
     const [jiraInput, setJiraInput] = useState('');
@@ -78,6 +79,12 @@ export const TaskInputForm = ({
         mutationFn: (input: string) => api.fetchJiraTask(input),
         onSuccess: (data) => {
             if (data.success) {
+                // A browse URL of another instance switches the whole flow to it
+                const instanceChanged = data.instance !== jiraInstance;
+                if (instanceChanged) {
+                    onJiraInstanceChange(data.instance);
+                }
+
                 let useJiraField = false;
                 let additionalInfo = '';
                 const jiraField = data.decompositionText?.trim() || '';
@@ -97,16 +104,16 @@ export const TaskInputForm = ({
                 }
 
                 if (useJiraField) {
-                    onTaskLoaded(data.task, data.decompositionText);
+                    onTaskLoaded(data.task, data.decompositionText, data.mockups);
                     setTextInput(data.decompositionText); // Заполняем textarea
                     additionalInfo = jiraField ? ' и поле «Декомпозиция» ✏️' : ', поле «Декомпозиция» пусто 🧐';
                 } else {
-                    onTaskLoaded(data.task);
+                    onTaskLoaded(data.task, undefined, data.mockups);
                 }
 
                 toast({
                     title: 'Задача загружена',
-                    description: `Успешно загружена задача ${data.task.key}${additionalInfo}`,
+                    description: `Успешно загружена задача ${data.task.key}${additionalInfo}${instanceChanged && jiraInstances.length > 1 ? `, выбрана JIRA ${getInstanceLabel(data.instance)}` : ''}`,
                 });
             }
         },
@@ -151,20 +158,20 @@ export const TaskInputForm = ({
         setSelectedProvider(provider);
     };
 
-    const getProviderLabel = (provider: LLMProvider): string => {
-        switch (provider) {
-            case 'openai': return 'OpenAI';
-            case 'anthropic': return 'Anthropic';
-            case 'regexp': return 'RegExp';
-            default: return provider;
-        }
-    };
+    const getInstanceLabel = (name: string) => jiraInstances.find((instance) => instance.name === name)?.label || name;
+    const instanceVariants = jiraInstances.map((instance) => ({
+        value: instance.name,
+        label: instance.label,
+    }));
 
-    const llmProviders: LLMProvider[] = ['openai', 'anthropic', 'regexp'];
-    const llmVariants = useMemo<SegmentedVariants<LLMProvider>>(() => llmProviders.map((provider) => ({
-        value: provider,
-        label: getProviderLabel(provider),
-    })), []);
+    // Every provider registered on the server; the regexp parser works before the list is loaded
+    const llmVariants = useMemo<SegmentedVariants<LLMProvider>>(() => (
+        availableProviders.length > 0 ? availableProviders : [{ name: 'regexp', label: 'RegExp' }]
+    ).map((provider) => ({
+        value: provider.name,
+        label: provider.label,
+    })), [availableProviders]);
+    const selectedProviderInfo = availableProviders.find((provider) => provider.name === selectedProvider);
 
     return (
         <Card style={{ borderRadius: '24px', padding: '24px' }}>
@@ -194,6 +201,12 @@ export const TaskInputForm = ({
             <CardContent className="p-0 space-y-6">
                 {/* JIRA Input Section */}
                 <div className="space-y-3">
+                    {instanceVariants.length > 1 && jiraInstance && (
+                        <div className="flex items-center gap-2" data-testid="jira-instance-select">
+                            <span className="text-sm text-muted-foreground">JIRA:</span>
+                            <Segmented variants={instanceVariants} value={jiraInstance} onChange={onJiraInstanceChange} />
+                        </div>
+                    )}
                     <div className="flex gap-3">
                         <Input
                             id="jira-input"
@@ -259,6 +272,15 @@ export const TaskInputForm = ({
                         <div className="flex items-center gap-2">
                             <span className="text-sm text-muted-foreground">Анализатор:</span>
                             <Segmented variants={llmVariants} value={selectedProvider} onChange={handleProviderChange} />
+                            {selectedProviderInfo && !selectedProviderInfo.available && (
+                                <span
+                                    className="text-sm text-orange-600"
+                                    title={selectedProviderInfo.error}
+                                    data-testid="text-provider-unavailable"
+                                >
+                                    Недоступен
+                                </span>
+                            )}
                         </div>
 
                         {/* Submit Button */}
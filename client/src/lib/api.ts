@@ -1,17 +1,34 @@
 import { apiRequest } from './queryClient';
+import { readEventStream } from './event-stream';
 import type {
     JiraTask,
+    JiraConnectionStatus,
+    JiraInstanceInfo,
+    JiraBoard,
+    LLMProviderInfo,
+    JiraLoginRequest,
+    JiraSprint,
+    JiraUser,
+    JiraVersion,
+    MockupLink,
     DecompositionBlock,
     CreateTaskRequest,
-    TaskCreationResponse
+    TaskCreationResponse,
+    TaskCreationProgress,
+    DecompositionKeysRequest,
+    DecompositionKeysResponse,
+    PushEstimationRequest,
+    PushEstimationResponse,
+    RollbackResponse
 } from 'shared/schema';
 import { Estimation } from 'shared/types.ts';
-import { ProviderInfo } from 'src/components/TaskInputForm.tsx';
 
 interface FetchJiraTaskResponse {
     success: boolean;
+    instance: string; // Differs from the selected one when a browse URL of another instance was pasted
     task: JiraTask;
     decompositionText: string;
+    mockups: MockupLink[]; // Links from the mockup field of the issue
     message?: string;
     example?: string;
 }
@@ -22,43 +39,159 @@ export interface ParseDecompositionResponse {
     blocks: DecompositionBlock[];
     estimation: Estimation;
     mapping: Record<string, number>;
-    availableProviders?: ProviderInfo[];
+    availableProviders?: LLMProviderInfo[];
 }
 
 interface ConfigResponse {
     success: boolean;
     estimationMapping: Record<string, number>;
     repositoryCategories: Record<string, any>;
+    jiraInstances: JiraInstanceInfo[];
+    jiraInstance: string;
     jiraHost: string;
+    jiraProjects: string[];
+    defaultJiraProject: string;
+    epicEnabled: boolean;
+    jiraEstimationOptions: Record<string, Record<string, string>>;
+    jiraEstimationWarnings: Record<string, string>; // Projects whose options come from config/jira.json
+    jiraConnection: JiraConnectionStatus;
+    llmProviders: LLMProviderInfo[];
     tokens: {
-        openai: boolean;
-        anthropic: boolean;
         jira: boolean;
     };
 }
 
+// Jira instance selected in the task form; the server uses the default one until it is set
+let jiraInstance: string | undefined;
+
+const instanceHeaders = (): Record<string, string> => jiraInstance ? { 'X-Jira-Instance': jiraInstance } : {};
+
 export const api = {
+    getJiraInstance(): string | undefined {
+        return jiraInstance;
+    },
+
+    setJiraInstance(instance: string | undefined): void {
+        jiraInstance = instance;
+    },
+
     async fetchJiraTask(input: string): Promise<FetchJiraTaskResponse> {
-        const response = await apiRequest('POST', '/api/jira/task', { input });
+        const response = await apiRequest('POST', '/api/jira/task', { input }, instanceHeaders());
         return await response.json();
     },
 
-    async parseDecomposition(decompositionText: string, jiraKey: string, provider?: string): Promise<ParseDecompositionResponse> {
-        const response = await apiRequest('POST', '/api/decomposition/parse', {
-            decompositionText,
-            jiraKey,
-            provider,
+    async parseDecomposition(
+        decompositionText: string,
+        jiraKey: string,
+        provider?: string,
+        onBlock?: (block: DecompositionBlock, index: number) => void,
+        signal?: AbortSignal
+    ): Promise<ParseDecompositionResponse> {
+        const request = { decompositionText, jiraKey, provider };
+        if (!onBlock) {
+            const response = await apiRequest('POST', '/api/decomposition/parse', request, instanceHeaders(), signal);
+            return await response.json();
+        }
+
+        const response = await apiRequest('POST', '/api/decomposition/parse', request, { ...instanceHeaders(), Accept: 'text/event-stream' }, signal);
+        let result = null as ParseDecompositionResponse | null;
+        await readEventStream(response, (event, data) => {
+            if (event === 'block') {
+                onBlock(data.block, data.index);
+            } else if (event === 'result') {
+                result = data;
+            } else if (event === 'error') {
+                throw new Error(data.message);
+            }
         });
+
+        if (!result) {
+            throw new Error('Соединение прервано до завершения разбора декомпозиции');
+        }
+        return result;
+    },
+
+    async createTasks(
+        request: CreateTaskRequest,
+        onProgress?: (progress: TaskCreationProgress) => void
+    ): Promise<TaskCreationResponse> {
+        if (!onProgress) {
+            const response = await apiRequest('POST', '/api/jira/create-tasks', request, instanceHeaders());
+            return await response.json();
+        }
+
+        const response = await apiRequest('POST', '/api/jira/create-tasks', request, { ...instanceHeaders(), Accept: 'text/event-stream' });
+        let result = null as TaskCreationResponse | null;
+        await readEventStream(response, (event, data) => {
+            if (event === 'progress') {
+                onProgress(data);
+            } else if (event === 'result') {
+                result = data;
+            } else if (event === 'error') {
+                throw new Error(data.message);
+            }
+        });
+
+        if (!result) {
+            throw new Error('Соединение прервано до завершения создания задач');
+        }
+        return result;
+    },
+
+    async rollbackBatch(batchId: string): Promise<RollbackResponse> {
+        const response = await apiRequest('POST', `/api/jira/batches/${batchId}/rollback`, undefined, instanceHeaders());
+        return await response.json();
+    },
+
+    async previewDecompositionKeys(request: DecompositionKeysRequest): Promise<DecompositionKeysResponse> {
+        const response = await apiRequest('POST', '/api/jira/decomposition-keys/preview', request, instanceHeaders());
         return await response.json();
     },
 
-    async createTasks(request: CreateTaskRequest): Promise<TaskCreationResponse> {
-        const response = await apiRequest('POST', '/api/jira/create-tasks', request);
+    async writeDecompositionKeys(request: DecompositionKeysRequest): Promise<DecompositionKeysResponse> {
+        const response = await apiRequest('POST', '/api/jira/decomposition-keys', request, instanceHeaders());
         return await response.json();
     },
 
+    async pushEstimation(request: PushEstimationRequest): Promise<PushEstimationResponse> {
+        const response = await apiRequest('POST', '/api/jira/estimate', request, instanceHeaders());
+        return await response.json();
+    },
+
+    async searchJiraUsers(projectKey: string, query: string): Promise<JiraUser[]> {
+        const params = new URLSearchParams({ project: projectKey, query });
+        const response = await apiRequest('GET', `/api/jira/users?${params}`, undefined, instanceHeaders());
+        return (await response.json()).users;
+    },
+
+    async searchJiraVersions(projectKey: string, query: string): Promise<JiraVersion[]> {
+        const params = new URLSearchParams({ project: projectKey, query });
+        const response = await apiRequest('GET', `/api/jira/versions?${params}`, undefined, instanceHeaders());
+        return (await response.json()).versions;
+    },
+
+    async getJiraBoards(projectKey: string): Promise<JiraBoard[]> {
+        const params = new URLSearchParams({ project: projectKey });
+        const response = await apiRequest('GET', `/api/jira/boards?${params}`, undefined, instanceHeaders());
+        return (await response.json()).boards;
+    },
+
+    async getJiraSprints(boardId: number): Promise<JiraSprint[]> {
+        const response = await apiRequest('GET', `/api/jira/boards/${boardId}/sprints`, undefined, instanceHeaders());
+        return (await response.json()).sprints;
+    },
+
+    async loginToJira(request: JiraLoginRequest): Promise<JiraConnectionStatus> {
+        const response = await apiRequest('POST', '/api/jira/session', request, instanceHeaders());
+        return await response.json();
+    },
+
+    async logoutFromJira(): Promise<void> {
+        await apiRequest('DELETE', '/api/jira/session', undefined, instanceHeaders());
+    },
+
     async getConfig(): Promise<ConfigResponse> {
-        const response = await apiRequest('GET', '/api/config');
+        const response = await apiRequest('GET', '/api/config', undefined, instanceHeaders());
         return await response.json();
     },
 };
@@ -0,0 +1,50 @@
+/**
+ * Reads a server-sent events response (see server/sse.ts) and calls onEvent for every complete event.
+ * Resolves when the server closes the stream.
+ */
+export async function readEventStream(
+    response: Response,
+    onEvent: (event: string, data: any) => void
+): Promise<void> {
+    if (!response.body) {
+        throw new Error('Пустой ответ сервера');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    const flushEvents = () => {
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+            const rawEvent = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            const dataLines: string[] = [];
+            rawEvent.split('\n').forEach((line) => {
+                if (line.startsWith('event:')) {
+                    event = line.slice(6).trim();
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).trim());
+                }
+            });
+            if (dataLines.length > 0) {
+                onEvent(event, JSON.parse(dataLines.join('\n')));
+            }
+
+            boundary = buffer.indexOf('\n\n');
+        }
+    };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        flushEvents();
+    }
+    buffer += decoder.decode();
+    flushEvents();
+}
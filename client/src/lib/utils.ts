@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { TaskJiraFields } from "shared/schema"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -30,6 +31,22 @@ export const getRepositoryCategory = (repository: string | null): { label: strin
   return { label: 'Задача', bg: 'bg-gray-100', text: 'text-gray-800' };
 };
 
+// Default fields of created issues: the "jira" section of the repository category in config/repository-categories.json
+export const getCategoryJiraFields = (repository: string | null, categories: Record<string, any> = {}): TaskJiraFields => {
+  if (!repository) return {};
+
+  const category = Object.values(categories).find((config) => config.repos?.includes(repository.toLowerCase()));
+  return { ...(category?.jira || {}) };
+};
+
+// Mockups of the parent issue go to tasks of categories with "mockups": true, e.g. Frontend
+export const usesParentMockups = (repository: string | null, categories: Record<string, any> = {}): boolean => {
+  if (!repository) return false;
+
+  const category = Object.values(categories).find((config) => config.repos?.includes(repository.toLowerCase()));
+  return !!category?.mockups;
+};
+
 export const getRiskBgColor = (risk: string | null): string => {
   if (!risk) return 'bg-gray-100';
 
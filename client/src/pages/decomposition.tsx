@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
-import { ProviderInfo, TaskInputForm } from 'src/components/TaskInputForm';
+import { useState, useEffect, useRef } from 'react';
+import { TaskInputForm } from 'src/components/TaskInputForm';
 import { DecompositionDisplay } from 'src/components/DecompositionDisplay';
 import { EstimationSummary } from 'src/components/EstimationSummary';
 import { TaskCreationPanel } from 'src/components/TaskCreationPanel';
+import { JiraLoginForm } from 'src/components/JiraLoginForm';
 import { Button } from 'src/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from 'src/components/ui/card';
 import { HelpCircle, Info, Loader2 } from 'lucide-react';
@@ -14,7 +15,11 @@ import {
 } from 'src/components/ui/tooltip';
 import type {
     JiraTask,
-    DecompositionBlock
+    JiraConnectionStatus,
+    JiraInstanceInfo,
+    DecompositionBlock,
+    LLMProviderInfo,
+    MockupLink
 } from 'shared/schema';
 import { useMutation } from '@tanstack/react-query';
 import { useToast } from 'src/hooks/use-toast.ts';
@@ -25,6 +30,7 @@ import { numConversion } from 'src/lib/utils.ts';
 
 export const DecompositionPage = () => {
     const [currentTask, setCurrentTask] = useState<JiraTask | null>(null);
+    const [parentMockups, setParentMockups] = useState<MockupLink[]>([]);
     const [decompositionText, setDecompositionText] = useState<string>('');
     const [blocks, setBlocks] = useState<DecompositionBlock[]>([]);
     const [estimation, setEstimation] = useState<Estimation | null>(null);
@@ -33,51 +39,82 @@ export const DecompositionPage = () => {
     const [additionalRiskPercent, setAdditionalRiskPercent] = useState(20);
     const [parallelizationCoefficient, setParallelizationCoefficient] = useState(1.0);
     const [parentJiraKey, setParentJiraKey] = useState<string>('');
-    const [availableProviders, setAvailableProviders] = useState<ProviderInfo[]>([]);
+    const [availableProviders, setAvailableProviders] = useState<LLMProviderInfo[]>([]);
     const [selectedProvider, setSelectedProvider] = useState<string>('regexp');
     const [showHelpModal, setShowHelpModal] = useState<boolean>(false);
     const [config, setConfig] = useState<{
         estimationMapping: Record<string, number>;
         repositoryCategories: Record<string, any>;
+        jiraInstances: JiraInstanceInfo[];
+        jiraInstance: string;
         jiraHost: string;
-        tokens: { openai: boolean; anthropic: boolean; jira: boolean };
+        jiraProjects: string[];
+        defaultJiraProject: string;
+        epicEnabled: boolean;
+        jiraEstimationOptions: Record<string, Record<string, string>>;
+        jiraEstimationWarnings: Record<string, string>;
+        jiraConnection: JiraConnectionStatus;
+        llmProviders: LLMProviderInfo[];
+        tokens: { jira: boolean };
     } | null>(null);
     const [configLoading, setConfigLoading] = useState<boolean>(true);
+    const parseAbortController = useRef<AbortController | null>(null);
     const jiraKey = currentTask?.key || parentJiraKey;
 
     const { toast } = useToast();
 
-    // Load configuration on startup
-    useEffect(() => {
-        const loadConfig = async () => {
-            try {
-                setConfigLoading(true);
-                const response = await api.getConfig();
-                if (response.success) {
-                    setConfig({
-                        estimationMapping: response.estimationMapping,
-                        repositoryCategories: response.repositoryCategories,
-                        jiraHost: response.jiraHost,
-                        tokens: response.tokens
-                    });
-                    setMapping(response.estimationMapping);
-                }
-            } catch (error) {
-                console.error('Failed to load config:', error);
-                toast({
-                    variant: 'destructive',
-                    title: 'Ошибка загрузки конфигурации',
-                    description: 'Не удалось загрузить настройки приложения'
+    const loadConfig = async () => {
+        try {
+            setConfigLoading(true);
+            const response = await api.getConfig();
+            if (response.success) {
+                setConfig({
+                    estimationMapping: response.estimationMapping,
+                    repositoryCategories: response.repositoryCategories,
+                    jiraInstances: response.jiraInstances,
+                    jiraInstance: response.jiraInstance,
+                    jiraHost: response.jiraHost,
+                    jiraProjects: response.jiraProjects,
+                    defaultJiraProject: response.defaultJiraProject,
+                    epicEnabled: response.epicEnabled,
+                    jiraEstimationOptions: response.jiraEstimationOptions,
+                    jiraEstimationWarnings: response.jiraEstimationWarnings || {},
+                    jiraConnection: response.jiraConnection,
+                    llmProviders: response.llmProviders,
+                    tokens: response.tokens
                 });
-            } finally {
-                setConfigLoading(false);
+                setMapping(response.estimationMapping);
+                setAvailableProviders(response.llmProviders);
             }
-        };
+        } catch (error) {
+            console.error('Failed to load config:', error);
+            toast({
+                variant: 'destructive',
+                title: 'Ошибка загрузки конфигурации',
+                description: 'Не удалось загрузить настройки приложения'
+            });
+        } finally {
+            setConfigLoading(false);
+        }
+    };
+
+    // Load configuration on startup
+    useEffect(() => {
         loadConfig();
     }, []);
 
     const parseMutation = useMutation({
-        mutationFn: (text: string) => api.parseDecomposition(text, jiraKey, selectedProvider),
+        mutationFn: (text: string) => {
+            parseAbortController.current?.abort();
+            const abortController = new AbortController();
+            parseAbortController.current = abortController;
+            // Blocks are shown as the LLM writes them; a repaired answer starts again from index 0
+            return api.parseDecomposition(text, jiraKey, selectedProvider, (block, index) => {
+                if (!abortController.signal.aborted) {
+                    setBlocks((current) => [...current.slice(0, index), block]);
+                }
+            }, abortController.signal);
+        },
         onSuccess: (data) => {
             if (data.success) {
                 handleParsingComplete(data.blocks, data.estimation, data.sessionId, data.mapping, data.availableProviders);
@@ -89,6 +126,10 @@ export const DecompositionPage = () => {
             }
         },
         onError: (error: any) => {
+            // Cancelled by the user, see cancelParsing
+            if (error.name === 'AbortError') {
+                return;
+            }
             toast({
                 variant: 'destructive',
                 title: 'Ошибка парсинга',
@@ -107,7 +148,15 @@ export const DecompositionPage = () => {
         parseMutation.mutate(text);
     };
 
-    const handleTaskLoaded = (task: JiraTask, text?: string) => {
+    const cancelParsing = () => {
+        parseAbortController.current?.abort();
+        setBlocks([]);
+        toast({
+            title: 'Разбор остановлен',
+        });
+    };
+
+    const handleTaskLoaded = (task: JiraTask, text?: string, mockups: MockupLink[] = []) => {
         // Reset parsing results FIRST
         if (typeof text === 'string') {
             setDecompositionText(text);
@@ -118,9 +167,22 @@ export const DecompositionPage = () => {
 
         // Then set new data
         setCurrentTask(task);
+        setParentMockups(mockups);
         setParentJiraKey(task.key);
     };
 
+    // Parent issue, projects and sprints belong to the instance, so a loaded parent doesn't carry over
+    const handleJiraInstanceChange = (instance: string) => {
+        if (instance === api.getJiraInstance()) {
+            return;
+        }
+        api.setJiraInstance(instance);
+        setCurrentTask(null);
+        setParentMockups([]);
+        setParentJiraKey('');
+        loadConfig();
+    };
+
     const handleTextProvided = (text: string, parentKey?: string, provider?: string) => {
         setDecompositionText(text);
         if (provider) {
@@ -138,7 +200,7 @@ export const DecompositionPage = () => {
         estimationData: Estimation,
         sessionId: string,
         mappingData: Record<string, number>,
-        providersData?: ProviderInfo[],
+        providersData?: LLMProviderInfo[],
     ) => {
         setBlocks(parsedBlocks);
         setEstimation(estimationData);
@@ -151,6 +213,7 @@ export const DecompositionPage = () => {
 
     const handleRefresh = () => {
         setCurrentTask(null);
+        setParentMockups([]);
         setDecompositionText('');
         setParentJiraKey('');
         setBlocks([]);
@@ -202,11 +265,19 @@ export const DecompositionPage = () => {
                             onRefresh={handleRefresh}
                             availableProviders={availableProviders}
                             jiraHost={config?.jiraHost}
+                            jiraInstances={config?.jiraInstances}
+                            jiraInstance={config?.jiraInstance}
+                            onJiraInstanceChange={handleJiraInstanceChange}
                             parseMutation={parseMutation}
                         />
 
                         {decompositionText && (
-                            <DecompositionDisplay blocks={blocks} parseMutation={parseMutation} />
+                            <DecompositionDisplay
+                                blocks={blocks}
+                                parseMutation={parseMutation}
+                                onBlocksChange={setBlocks}
+                                onCancel={cancelParsing}
+                            />
                         )}
 
                         {blocks.length > 0 && estimation && (
@@ -217,6 +288,7 @@ export const DecompositionPage = () => {
                                 parallelizationCoefficient={parallelizationCoefficient}
                                 onParallelizationCoefficientChange={setParallelizationCoefficient}
                                 mapping={mapping}
+                                parentJiraKey={currentTask?.key}
                             />
                         )}
 
@@ -225,9 +297,15 @@ export const DecompositionPage = () => {
                                 sessionId={sessionId}
                                 estimation={estimation}
                                 additionalRiskPercent={additionalRiskPercent}
+                                parallelizationCoefficient={parallelizationCoefficient}
                                 blocks={blocks}
                                 parentJiraTask={currentTask}
+                                parentMockups={parentMockups}
                                 jiraHost={config?.jiraHost}
+                                jiraProjects={config?.jiraProjects}
+                                defaultJiraProject={config?.defaultJiraProject}
+                                repositoryCategories={config?.repositoryCategories}
+                                epicEnabled={config?.epicEnabled}
                             />
                         )}
                     </div>
@@ -267,6 +345,23 @@ export const DecompositionPage = () => {
                                     </div>
                                 </div>
 
+                                {/* T-shirt options discovered in JIRA */}
+                                {config?.jiraEstimationOptions && Object.keys(config.jiraEstimationOptions).length > 0 && (
+                                    <div className="border-t border-border pt-4">
+                                        <div className="text-base text-muted-foreground mb-2">Майки в JIRA:</div>
+                                        <div className="space-y-1">
+                                            {Object.entries(config.jiraEstimationOptions).map(([project, options]) => (
+                                                <div key={project} className="text-sm text-muted-foreground">
+                                                    {project}: <span className="font-medium text-foreground">{Object.keys(options).join(', ')}</span>
+                                                    {config.jiraEstimationWarnings[project] && (
+                                                        <span className="text-orange-700" title={config.jiraEstimationWarnings[project]}> (из config/jira.json)</span>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
                                 {/* Connection Status */}
                                 <div className="border-t border-border pt-4">
                                     <div className="text-base text-muted-foreground mb-2">Статус подключения:</div>
@@ -282,64 +377,55 @@ export const DecompositionPage = () => {
                                                         <TooltipTrigger asChild>
                                                             <span className="inline-flex items-center space-x-1">
                                                                 <span className={`font-medium ${config?.tokens.jira ? 'text-green-600' : 'text-orange-600'}`}>
-                                                                    {config?.tokens.jira ? 'Подключён' : 'Токен не найден'}
+                                                                    {config?.jiraConnection?.user
+                                                                        ? `Подключён как ${config.jiraConnection.user.displayName}`
+                                                                        : config?.jiraConnection ? 'Ошибка авторизации' : 'Токен не найден'}
                                                                 </span>
-                                                                {!config?.tokens.jira && <Info className={`h-4 w-4 ${config?.tokens.jira ? 'text-green-600' : 'text-orange-600'}`} style={{ marginTop: '2px' }} />}
+                                                                <Info className={`h-4 w-4 ${config?.tokens.jira ? 'text-green-600' : 'text-orange-600'}`} style={{ marginTop: '2px' }} />
                                                             </span>
                                                         </TooltipTrigger>
                                                         <TooltipContent>
-                                                            <p>Необходимо настроить JIRA_HOST, JIRA_USER и JIRA_TOKEN</p>
+                                                            {config?.jiraConnection?.ok ? (
+                                                                <p>Авторизация: {config.jiraConnection.authType}, {config.jiraConnection.user?.name}</p>
+                                                            ) : config?.jiraConnection?.error ? (
+                                                                <p>Авторизация {config.jiraConnection.authType}: {config.jiraConnection.error}</p>
+                                                            ) : (
+                                                                <p>Необходимо настроить host инстанса (или JIRA_HOST) и учётные данные для auth в config/jira.json</p>
+                                                            )}
                                                         </TooltipContent>
                                                     </Tooltip>
                                                 </TooltipProvider>
                                             )}
                                         </div>
-                                        {/* OpenAI Status */}
-                                        <div className="text-sm text-muted-foreground">
-                                            OpenAI API:{' '}
-                                            {configLoading ? (
-                                                <Loader2 className="h-3 w-3 animate-spin inline" />
-                                            ) : (
-                                                <TooltipProvider>
-                                                    <Tooltip>
-                                                        <TooltipTrigger asChild>
-                                                            <span className="inline-flex items-center space-x-1">
-                                                                <span className={`font-medium ${config?.tokens.openai ? 'text-green-600' : 'text-orange-600'}`}>
-                                                                    {config?.tokens.openai ? 'Подключён' : 'Токен не найден'}
-                                                                </span>
-                                                                {!config?.tokens.openai && <Info className={`h-4 w-4 ${config?.tokens.openai ? 'text-green-600' : 'text-orange-600'}`} />}
-                                                            </span>
-                                                        </TooltipTrigger>
-                                                        <TooltipContent>
-                                                            <p>Необходимо настроить OPENAI_API_KEY</p>
-                                                        </TooltipContent>
-                                                    </Tooltip>
-                                                </TooltipProvider>
-                                            )}
-                                        </div>
-                                        {/* Anthropic Status */}
-                                        <div className="text-sm text-muted-foreground">
-                                            Anthropic API:{' '}
-                                            {configLoading ? (
-                                                <Loader2 className="h-3 w-3 animate-spin inline" />
-                                            ) : (
+                                        {!configLoading && (
+                                            <JiraLoginForm connection={config?.jiraConnection} onChange={loadConfig} />
+                                        )}
+                                        {/* LLM providers from config/llm-providers.json */}
+                                        {configLoading ? (
+                                            <div className="text-sm text-muted-foreground">
+                                                LLM: <Loader2 className="h-3 w-3 animate-spin inline" />
+                                            </div>
+                                        ) : config?.llmProviders.filter((provider) => provider.type !== 'regexp').map((provider) => (
+                                            <div key={provider.name} className="text-sm text-muted-foreground" data-testid={`llm-provider-${provider.name}`}>
+                                                {provider.label}:{' '}
                                                 <TooltipProvider>
                                                     <Tooltip>
                                                         <TooltipTrigger asChild>
                                                             <span className="inline-flex items-center space-x-1">
-                                                                <span className={`font-medium ${config?.tokens.anthropic ? 'text-green-600' : 'text-orange-600'}`}>
-                                                                    {config?.tokens.anthropic ? 'Подключён' : 'Токен не найден'}
+                                                                <span className={`font-medium ${provider.available ? 'text-green-600' : 'text-orange-600'}`}>
+                                                                    {provider.available ? 'Подключён' : 'Недоступен'}
                                                                 </span>
-                                                                {!config?.tokens.anthropic && <Info className={`h-4 w-4 ${config?.tokens.anthropic ? 'text-green-600' : 'text-orange-600'}`} />}
+                                                                <Info className={`h-4 w-4 ${provider.available ? 'text-green-600' : 'text-orange-600'}`} />
                                                             </span>
                                                         </TooltipTrigger>
                                                         <TooltipContent>
-                                                            <p>Необходимо настроить ANTHROPIC_API_KEY</p>
+                                                            <p>Модель: {provider.model}</p>
+                                                            {provider.error && <p>{provider.error}</p>}
                                                         </TooltipContent>
                                                     </Tooltip>
                                                 </TooltipProvider>
-                                            )}
-                                        </div>
+                                            </div>
+                                        ))}
                                     </div>
                                 </div>
 
@@ -1,27 +1,78 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import fs from 'fs';
 import path from 'path';
 import { JiraService } from "./services/jira";
 import { LLMService, ParseDecompositionParams } from './services/llm';
 import { EstimationService } from "./services/estimation";
+import { TaskCreationService } from "./services/task-creation";
+import { CreationBatchRegistry } from "./services/creation-batches";
+import { addIssueKeys, getTextHash } from "./services/decomposition-keys";
+import { getInstanceHost, loadJiraInstances } from "./services/jira-settings";
+import { UserSessionStore } from "./services/user-sessions";
+import { startEventStream, wantsEventStream } from "./sse";
+import { clearSessionCookie, readSessionId, setSessionCookie } from "./session-cookie";
 import {
     JiraTaskSchema,
+    JiraLoginRequestSchema,
     CreateTaskRequestSchema,
+    DecompositionKeysRequestSchema,
+    PushEstimationRequestSchema,
     TaskCreationResponseSchema
 } from "../shared/schema";
+import type { DecompositionBlock, JiraConnectionStatus, JiraInstanceInfo, JiraInstancesConfig, JiraSettings, LLMProviderInfo } from "../shared/schema";
+import { extractMockupLinks } from "../shared/mockups";
+
+const LOGIN_REQUIRED_MESSAGE = 'Войдите в JIRA под своей учётной записью';
 
 // Lazy initialization to avoid credential errors at startup
-let jiraService: JiraService | null = null;
+const jiraServices = new Map<string, JiraService>(); // Shared account services per Jira instance
 let llmService: LLMService | null = null;
 let estimationService: EstimationService | null = null;
+let jiraInstances: JiraInstancesConfig | null = null;
+const creationBatches = new CreationBatchRegistry();
+const userSessions = new UserSessionStore();
+
+function getJiraInstances(): JiraInstancesConfig {
+    if (!jiraInstances) jiraInstances = loadJiraInstances();
+    return jiraInstances;
+}
+
+function getJiraSettings(instance: string = getJiraInstances().defaultInstance): JiraSettings {
+    const { instances } = getJiraInstances();
+    // The instance comes from a header: "constructor" or "toString" must not resolve to Object.prototype
+    const settings = Object.hasOwn(instances, instance) ? instances[instance] : undefined;
+    if (!settings) {
+        throw new Error(`Инстанс JIRA ${instance} не настроен в config/jira.json`);
+    }
+    return settings;
+}
 
-function getServices(options: { needJira?: boolean; needLLM?: boolean; needEstimation?: boolean } = {}) {
+// The client sends the selected Jira instance with every request; without it the default one is used
+function getRequestInstance(req?: Request): string {
+    const instance = req?.get('X-Jira-Instance') || getJiraInstances().defaultInstance;
+    getJiraSettings(instance);
+    return instance;
+}
+
+// With a request, Jira calls are made on behalf of the signed-in user, if there is one
+function getServices(
+    options: { needJira?: boolean; needLLM?: boolean; needEstimation?: boolean; instance?: string } = {},
+    req?: Request
+) {
     const services: any = {};
 
     if (options.needJira !== false) {
-        if (!jiraService) jiraService = new JiraService();
-        services.jiraService = jiraService;
+        const instance = options.instance || getRequestInstance(req);
+        const userJiraService = req ? userSessions.getJiraService(readSessionId(req), instance) : null;
+        if (userJiraService) {
+            services.jiraService = userJiraService;
+        } else if (getJiraSettings(instance).requireUserLogin) {
+            throw new Error(LOGIN_REQUIRED_MESSAGE);
+        } else {
+            if (!jiraServices.has(instance)) jiraServices.set(instance, new JiraService(undefined, instance));
+            services.jiraService = jiraServices.get(instance);
+        }
     }
 
     if (options.needLLM !== false) {
@@ -37,8 +88,75 @@ function getServices(options: { needJira?: boolean; needLLM?: boolean; needEstim
     return services;
 }
 
+// The epic takes the parent's summary and sits between the parent and the tasks, so both must be possible
+function getEpicError(settings: JiraSettings, parentJiraKey?: string): string | null {
+    const { epic, relationship } = settings;
+    if (!epic) {
+        return 'Эпик не настроен: добавьте секцию epic в config/jira.json';
+    }
+    if (!parentJiraKey) {
+        return 'Для создания эпика нужна родительская задача';
+    }
+    if (relationship.type === 'subtask') {
+        return 'Подзадачи нельзя добавить в эпик: выберите связь link или field';
+    }
+    if (relationship.type === 'field' && relationship.field === epic.linkField) {
+        return `Поле ${epic.linkField} уже занято связью с родительской задачей`;
+    }
+    return null;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
 
+    // Personal sign-in: the token is checked with a "who am I" request and stored encrypted server-side
+    app.post('/api/jira/session', async (req, res) => {
+        try {
+            const credentials = JiraLoginRequestSchema.parse(req.body);
+            const instance = getRequestInstance(req);
+            if (getJiraSettings(instance).auth.type === 'basic' && !credentials.user) {
+                return res.status(400).json({
+                    message: 'Для входа нужны логин и токен JIRA'
+                });
+            }
+
+            const { sessionId, status } = await userSessions.create(credentials, instance);
+            setSessionCookie(req, res, sessionId);
+            res.json(status);
+        } catch (error: any) {
+            console.error('JIRA sign-in error:', error);
+            res.status(401).json({
+                message: error.message || 'Не удалось войти в JIRA'
+            });
+        }
+    });
+
+    app.delete('/api/jira/session', (req, res) => {
+        const sessionId = readSessionId(req);
+        if (sessionId) {
+            userSessions.delete(sessionId);
+        }
+        clearSessionCookie(res);
+        res.json({ success: true });
+    });
+
+    // The shared account is not used when personal sign-in is required
+    app.use('/api/jira', (req, res, next) => {
+        let instance: string;
+        try {
+            instance = getRequestInstance(req);
+        } catch (error: any) {
+            return res.status(400).json({
+                message: error.message
+            });
+        }
+        if (req.path === '/session' || !getJiraSettings(instance).requireUserLogin || userSessions.getStatus(readSessionId(req), instance)) {
+            return next();
+        }
+        res.status(401).json({
+            message: LOGIN_REQUIRED_MESSAGE
+        });
+    });
+
     // Get JIRA task by key or URL
     app.post('/api/jira/task', async (req, res) => {
         try {
@@ -50,15 +168,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 });
             }
 
-            const { jiraService } = getServices();
-            const jiraKey = JiraService.extractKeyFromUrl(input);
+            // A browse URL of another configured instance switches to it
+            const { key: jiraKey, instance: urlInstance } = JiraService.extractKeyFromUrl(input);
+            const { jiraService } = getServices({ instance: urlInstance || undefined }, req);
             const jiraTask = await jiraService.getIssue(jiraKey);
 
             // Validate the response
             const validatedTask = JiraTaskSchema.parse(jiraTask);
 
             // Нормализуем текст декомпозиции: убираем %0D и другие проблемные символы
-            const rawText = validatedTask.fields.customfield_36836 || '';
+            const rawText = jiraService.getDecompositionText(validatedTask);
             const normalizedText = rawText
                 .replace(/%0D/g, '') // Убираем URL-encoded \r
                 .replace(/\r\n/g, '\n') // Windows line endings → Unix
@@ -78,8 +197,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
             res.json({
                 success: true,
+                instance: jiraService.getInstance(),
                 task: validatedTask,
-                decompositionText: normalizedText
+                decompositionText: normalizedText,
+                mockups: extractMockupLinks(jiraService.getMockupsText(validatedTask))
             });
 
         } catch (error: any) {
@@ -108,23 +229,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 decompositionText,
                 tShirtsToSPMapping: estimationService.getEstimationMapping(),
             }
-            const blocks = await llmService.parseDecomposition(parseDecompositionParams);
-
-            // Calculate estimations
-            const estimation = estimationService.calculateTotalEstimation(blocks);
 
-            // Create session in memory (no database)
-            const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-            res.json({
+            const getParseResponse = async (blocks: DecompositionBlock[]) => ({
                 success: true,
-                sessionId,
+                // Create session in memory (no database)
+                sessionId: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                 blocks,
-                estimation,
+                // Calculate estimations
+                estimation: estimationService.calculateTotalEstimation(blocks),
                 mapping: estimationService.getEstimationMapping(),
-                availableProviders: llmService.getAvailableProviders()
+                availableProviders: await llmService.getAvailableProviders()
             });
 
+            if (!wantsEventStream(req)) {
+                const blocks = await llmService.parseDecomposition(parseDecompositionParams);
+                return res.json(await getParseResponse(blocks));
+            }
+
+            // LLM answers take a while: stream blocks as the model writes them, the client may disconnect to cancel
+            const stream = startEventStream(res);
+            try {
+                const blocks = await llmService.parseDecomposition({
+                    ...parseDecompositionParams,
+                    onBlock: (block: DecompositionBlock, index: number) => stream.send('block', { index, block }),
+                    signal: stream.signal,
+                });
+                stream.send('result', await getParseResponse(blocks));
+            } catch (error: any) {
+                if (stream.isClosed()) {
+                    console.log('Decomposition parsing cancelled by the client');
+                } else {
+                    console.error('Decomposition parsing error:', error);
+                    stream.send('error', { message: error.message || 'Ошибка при разборе декомпозиции' });
+                }
+            }
+            stream.end();
+
         } catch (error: any) {
             console.error('Decomposition parsing error:', error);
             res.status(500).json({
@@ -137,7 +277,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     app.post('/api/jira/create-tasks', async (req, res) => {
         try {
             const requestData = CreateTaskRequestSchema.parse(req.body);
-            const { tasks, parentJiraKey } = requestData;
+            const { tasks } = requestData;
 
             if (!tasks || tasks.length === 0) {
                 return res.status(400).json({
@@ -145,87 +285,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 });
             }
 
-            const { jiraService } = getServices();
+            const { jiraService } = getServices({}, req);
 
-            // Prepare tasks for JIRA creation
-            const jiraTasks = tasks.map((task: any) => ({
-                summary: task.summary,
-                description: task.description || '',
-                estimation: task.estimation || null,
-                storyPoints: task.storyPoints || null
-            }));
+            const projectKey = requestData.projectKey || jiraService.getSettings().defaultProject;
+            if (!Object.hasOwn(jiraService.getSettings().projects, projectKey)) {
+                return res.status(400).json({
+                    message: `Проект ${projectKey} не настроен в config/jira.json`
+                });
+            }
+
+            if (requestData.createEpic) {
+                const epicError = getEpicError(jiraService.getSettings(), requestData.parentJiraKey);
+                if (epicError) {
+                    return res.status(400).json({ message: epicError });
+                }
+            }
+
+            const owner = userSessions.getOwner(readSessionId(req), jiraService.getInstance());
+            const taskCreationService = new TaskCreationService(jiraService, creationBatches, owner);
+
+            if (requestData.dryRun) {
+                return res.json(await taskCreationService.previewTasks({ ...requestData, projectKey }));
+            }
 
-            let createdTasks: Array<{ key: string; id: string; summary: string; url: string }> = [];
-            const errors: string[] = [];
+            // Every estimation must exist among the options of the project's T-shirt field
+            const estimationErrors = await jiraService.findUnknownEstimations(tasks, projectKey);
+            if (estimationErrors.length > 0) {
+                return res.status(400).json({
+                    message: estimationErrors.join('\n'),
+                    errors: estimationErrors
+                });
+            }
+
+            // Previously created issues are skipped by looking at the parent, which only works for runs one after another
+            const { parentJiraKey } = requestData;
+            const instance = jiraService.getInstance();
+            if (parentJiraKey && !creationBatches.startRun(instance, parentJiraKey)) {
+                return res.status(409).json({
+                    message: `Задачи для ${parentJiraKey} уже создаются, дождитесь окончания`
+                });
+            }
 
             try {
-                if (jiraTasks.length === 1) {
-                    // Single task creation
-                    const result = await jiraService.createIssue(jiraTasks[0]);
-                    createdTasks.push({
-                        key: result.key,
-                        id: result.id,
-                        summary: jiraTasks[0].summary,
-                        url: `${process.env.JIRA_HOST}/browse/${result.key}`
-                    });
-                } else {
-                    // Bulk creation
-                    const bulkResult = await jiraService.createBulkIssues(jiraTasks);
-
-                    // Process successful creations
-                    createdTasks = bulkResult.issues.map((issue, index) => ({
-                        key: issue.key,
-                        id: issue.id,
-                        summary: jiraTasks[index].summary,
-                        url: `${process.env.JIRA_HOST}/browse/${issue.key}`
-                    }));
-
-                    // Process errors
-                    bulkResult.errors.forEach((error) => {
-                        const taskIndex = error.failedElementNumber;
-                        const taskTitle = jiraTasks[taskIndex]?.summary || `Задача ${taskIndex + 1}`;
-                        errors.push(`Ошибка создания "${taskTitle}": ${JSON.stringify(error.elementErrors)}`);
-                    });
+                if (!wantsEventStream(req)) {
+                    return res.json(await taskCreationService.createTasks({ ...requestData, projectKey }));
                 }
 
-                // Link created tasks to parent if provided
-                if (parentJiraKey && createdTasks.length > 0) {
-                    for (const task of createdTasks) {
-                        try {
-                            await jiraService.linkIssues(parentJiraKey, task.key);
-                        } catch (linkError) {
-                            console.warn(`Failed to link ${task.key} to ${parentJiraKey}:`, linkError);
-                        }
-                    }
+                // Large batches take a while: report every created chunk, then the final response
+                const stream = startEventStream(res);
+                try {
+                    const response = await taskCreationService.createTasks(
+                        { ...requestData, projectKey },
+                        (progress) => stream.send('progress', progress)
+                    );
+                    stream.send('result', response);
+                } catch (error: any) {
+                    console.error('Task creation error:', error);
+                    stream.send('error', { message: error.message || 'Ошибка при создании задач' });
+                }
+                stream.end();
+            } finally {
+                if (parentJiraKey) {
+                    creationBatches.finishRun(instance, parentJiraKey);
                 }
-
-            } catch (creationError: any) {
-                console.error('JIRA creation error:', creationError);
-                errors.push(`Ошибка при создании задач: ${creationError.message}`);
             }
 
-            const response = {
-                success: errors.length === 0 && createdTasks.length > 0,
-                createdTasks,
-                errors
-            };
+        } catch (error: any) {
+            console.error('Task creation error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при создании задач'
+            });
+        }
+    });
+
+    // Roll back issues and links created by one create-tasks request
+    app.post('/api/jira/batches/:batchId/rollback', async (req, res) => {
+        try {
+            // Issues are rolled back in the instance they were created in, by the session that created them
+            const batch = creationBatches.get(req.params.batchId);
+            if (batch && (batch.instance !== getRequestInstance(req)
+                || batch.owner !== userSessions.getOwner(readSessionId(req), batch.instance))) {
+                return res.status(403).json({
+                    message: 'Откатить пакет может только тот, кто создал задачи, в том же инстансе JIRA'
+                });
+            }
+            const instance = batch?.instance;
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false, instance }, req);
+            const taskCreationService = new TaskCreationService(jiraService, creationBatches);
+            const response = await taskCreationService.rollbackBatch(req.params.batchId);
 
             res.json(response);
+        } catch (error: any) {
+            console.error('Rollback error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при откате задач'
+            });
+        }
+    });
+
+    // Assignee autocomplete: users who can be assigned issues of the project
+    app.get('/api/jira/users', async (req, res) => {
+        try {
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false }, req);
+            const projectKey = String(req.query.project || jiraService.getSettings().defaultProject);
+            const users = await jiraService.searchAssignableUsers(projectKey, String(req.query.query || ''));
 
+            res.json({
+                success: true,
+                users,
+            });
         } catch (error: any) {
-            console.error('Task creation error:', error);
+            console.error('JIRA users search error:', error);
             res.status(500).json({
-                message: error.message || 'Ошибка при создании задач'
+                message: error.message || 'Ошибка при поиске пользователей JIRA'
+            });
+        }
+    });
+
+    // Fix version autocomplete
+    app.get('/api/jira/versions', async (req, res) => {
+        try {
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false }, req);
+            const projectKey = String(req.query.project || jiraService.getSettings().defaultProject);
+            const versions = await jiraService.searchVersions(projectKey, String(req.query.query || ''));
+
+            res.json({
+                success: true,
+                versions,
+            });
+        } catch (error: any) {
+            console.error('JIRA versions search error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при получении версий проекта'
+            });
+        }
+    });
+
+    // Scrum boards of the project, to pick a sprint for created tasks
+    app.get('/api/jira/boards', async (req, res) => {
+        try {
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false }, req);
+            const projectKey = String(req.query.project || jiraService.getSettings().defaultProject);
+            const boards = await jiraService.getBoards(projectKey);
+
+            res.json({
+                success: true,
+                boards,
+            });
+        } catch (error: any) {
+            console.error('JIRA boards error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при получении досок JIRA'
+            });
+        }
+    });
+
+    // Active and future sprints of a board
+    app.get('/api/jira/boards/:boardId/sprints', async (req, res) => {
+        try {
+            const boardId = Number(req.params.boardId);
+            if (!Number.isInteger(boardId)) {
+                return res.status(400).json({
+                    message: 'Некорректный ID доски'
+                });
+            }
+
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false }, req);
+            const sprints = await jiraService.getSprints(boardId);
+
+            res.json({
+                success: true,
+                sprints,
+            });
+        } catch (error: any) {
+            console.error('JIRA sprints error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при получении спринтов'
+            });
+        }
+    });
+
+    // Preview (write: false) or write (write: true) created issue keys into the parent's decomposition field
+    const handleDecompositionKeys = (write: boolean) => async (req: Request, res: Response) => {
+        try {
+            const { parentJiraKey, tasks, textHash: previewHash } = DecompositionKeysRequestSchema.parse(req.body);
+            if (write && !previewHash) {
+                return res.status(400).json({
+                    message: 'Для записи нужен textHash из предпросмотра'
+                });
+            }
+            const { jiraService } = getServices({ needLLM: false, needEstimation: false }, req);
+
+            // Always start from the current field value, not from the normalized text shown in the UI
+            const parentTask = await jiraService.getIssue(parentJiraKey);
+            const currentText = jiraService.getDecompositionText(parentTask);
+            const textHash = getTextHash(currentText);
+            // Someone has edited the field since the preview: the diff the user approved no longer applies
+            if (write && previewHash !== textHash) {
+                return res.status(409).json({
+                    message: 'Декомпозиция изменилась после предпросмотра, подготовьте изменения заново'
+                });
+            }
+            const { text, changes, unmatched } = addIssueKeys(currentText, tasks);
+
+            const updated = write && changes.length > 0;
+            if (updated) {
+                await jiraService.updateDecompositionText(parentJiraKey, text, changes);
+            }
+
+            res.json({
+                success: true,
+                changes,
+                unmatched,
+                updated,
+                textHash,
+            });
+        } catch (error: any) {
+            console.error('Decomposition keys error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при обновлении декомпозиции'
+            });
+        }
+    };
+
+    app.post('/api/jira/decomposition-keys/preview', handleDecompositionKeys(false));
+    app.post('/api/jira/decomposition-keys', handleDecompositionKeys(true));
+
+    // Write the aggregated estimate to the parent issue
+    app.post('/api/jira/estimate', async (req, res) => {
+        try {
+            const { parentJiraKey, additionalRiskPercent, estimation } = PushEstimationRequestSchema.parse(req.body);
+            const { jiraService, estimationService } = getServices({ needLLM: false }, req);
+
+            const storyPoints = estimationService.calculateTotalWithRisks(estimation, additionalRiskPercent);
+            const tShirt = estimationService.getParentTShirt(storyPoints, jiraService.getSettings().parentFields.estimationScale);
+            const comment = estimationService.createEstimationComment(estimation, additionalRiskPercent, tShirt);
+
+            await jiraService.updateParentEstimation(parentJiraKey, storyPoints, tShirt);
+            await jiraService.addComment(parentJiraKey, comment);
+
+            res.json({
+                success: true,
+                storyPoints,
+                tShirt,
+                comment,
+            });
+        } catch (error: any) {
+            console.error('Estimation update error:', error);
+            res.status(500).json({
+                message: error.message || 'Ошибка при записи оценки в JIRA'
             });
         }
     });
 
     // Get application configuration
-    app.get('/api/config', (req, res) => {
+    app.get('/api/config', async (req, res) => {
         try {
-            const { estimationService, jiraService } = getServices();
+            const { estimationService } = getServices({ needJira: false, needLLM: false });
             const estimationMapping = estimationService.getEstimationMapping();
-            const jiraConfig = jiraService.getConfig();
+            const jiraInstance = getRequestInstance(req);
+            const jiraSettings = getJiraSettings(jiraInstance);
+            const jiraInstanceList: JiraInstanceInfo[] = Object.entries(getJiraInstances().instances)
+                .map(([name, settings]) => ({ name, label: settings.label || name, host: getInstanceHost(settings) }));
+
+            // Jira may be unavailable: no shared account and the user has not signed in yet
+            let jiraService: JiraService | null = null;
+            let jiraConnection: JiraConnectionStatus;
+            try {
+                jiraService = getServices({ needLLM: false, needEstimation: false }, req).jiraService as JiraService;
+                jiraConnection = userSessions.getStatus(readSessionId(req), jiraInstance) || await jiraService.getConnectionStatus();
+            } catch (err: any) {
+                jiraConnection = {
+                    ok: false,
+                    authType: jiraSettings.auth.type,
+                    error: err.message,
+                    checkedAt: new Date().toISOString(),
+                };
+            }
 
             // Load repository categories
             let repositoryCategories = {};
@@ -237,18 +573,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 console.warn('Could not load repository categories:', err);
             }
 
+            // Discover T-shirt options of every configured project in parallel, without retries: a slow project
+            // must not hold the page
+            const jiraEstimationOptions: Record<string, Record<string, string>> = {};
+            const jiraEstimationWarnings: Record<string, string> = {};
+            await Promise.all((jiraService ? Object.keys(jiraSettings.projects) : []).map(async (projectKey) => {
+                try {
+                    jiraEstimationOptions[projectKey] = await jiraService!.getEstimationOptions(projectKey, { quick: true });
+                    const warning = jiraService!.getEstimationWarning(projectKey);
+                    if (warning) {
+                        jiraEstimationWarnings[projectKey] = warning;
+                    }
+                } catch (err) {
+                    console.warn(`Could not discover estimation options of ${projectKey}:`, err);
+                }
+            }));
+
+            // Registered LLM providers and whether they answer
+            let llmProviders: LLMProviderInfo[] = [];
+            try {
+                const { llmService } = getServices({ needJira: false, needEstimation: false });
+                llmProviders = await llmService.getAvailableProviders();
+            } catch (err) {
+                console.warn('Could not load LLM providers:', err);
+            }
+
             // Check token availability
             const tokens = {
-                openai: !!process.env.OPENAI_API_KEY,
-                anthropic: !!process.env.ANTHROPIC_API_KEY,
-                jira: !!jiraConfig.token,
+                jira: jiraConnection.ok,
             };
 
             res.json({
                 success: true,
                 estimationMapping,
                 repositoryCategories,
-                jiraHost: jiraConfig.host,
+                jiraInstances: jiraInstanceList,
+                jiraInstance,
+                jiraHost: getInstanceHost(jiraSettings),
+                jiraProjects: Object.keys(jiraSettings.projects),
+                defaultJiraProject: jiraSettings.defaultProject,
+                epicEnabled: !!jiraSettings.epic,
+                jiraEstimationOptions,
+                jiraEstimationWarnings,
+                jiraConnection,
+                llmProviders,
                 tokens
             });
         } catch (error: any) {
@@ -258,6 +626,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
     });
 
+    // Validate Jira credentials at startup, so a wrong token shows up in the logs right away
+    try {
+        Object.entries(getJiraInstances().instances).forEach(([instance, settings]) => {
+            if (settings.requireUserLogin) {
+                return;
+            }
+            try {
+                const { jiraService } = getServices({ needLLM: false, needEstimation: false, instance });
+                jiraService.verifyConnection();
+            } catch (error: any) {
+                console.warn(`[JIRA] Instance ${instance} is not configured:`, error.message);
+            }
+        });
+    } catch (error: any) {
+        console.warn('[JIRA] Service is not configured:', error.message);
+    }
+
     const httpServer = createServer(app);
     return httpServer;
 }
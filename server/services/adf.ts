@@ -0,0 +1,376 @@
+// Conversion between Jira wiki markup (REST v2) and Atlassian Document Format (REST v3, Jira Cloud).
+// Only the markup used in decompositions and task descriptions is supported: headings, lists,
+// paragraphs, tables, code blocks, bold/italic/monospace text and links.
+
+export interface AdfMark {
+    type: string;
+    attrs?: Record<string, any>;
+}
+
+export interface AdfNode {
+    type: string;
+    text?: string;
+    attrs?: Record<string, any>;
+    marks?: AdfMark[];
+    content?: AdfNode[];
+}
+
+export interface AdfDocument {
+    version: 1;
+    type: 'doc';
+    content: AdfNode[];
+}
+
+export const isAdfDocument = (value: unknown): value is AdfDocument =>
+    typeof value === 'object' && value !== null && (value as AdfNode).type === 'doc';
+
+// {{code}}, [text|url], [url], *bold*, _italic_; bold and italic must start a word
+const INLINE_PATTERN = /\{\{([^}]+)\}\}|\[([^\]|]+)\|([^\]]+)\]|\[((?:https?|mailto):[^\]]+)\]|(^|[\s(])\*(\S(?:[^*]*\S)?)\*|(^|[\s(])_(\S(?:[^_]*\S)?)_/g;
+
+const textNode = (text: string, marks?: AdfMark[]): AdfNode => (marks ? { type: 'text', text, marks } : { type: 'text', text });
+
+function parseInline(text: string): AdfNode[] {
+    const nodes: AdfNode[] = [];
+    let lastIndex = 0;
+    const pushText = (value: string) => {
+        if (value) {
+            nodes.push(textNode(value));
+        }
+    };
+
+    INLINE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = INLINE_PATTERN.exec(text)) !== null) {
+        pushText(text.slice(lastIndex, match.index));
+        const [, code, linkText, linkUrl, bareUrl, boldPrefix, bold, italicPrefix, italic] = match;
+
+        if (code !== undefined) {
+            nodes.push(textNode(code, [{ type: 'code' }]));
+        } else if (linkText !== undefined) {
+            nodes.push(textNode(linkText, [{ type: 'link', attrs: { href: linkUrl.trim() } }]));
+        } else if (bareUrl !== undefined) {
+            nodes.push(textNode(bareUrl, [{ type: 'link', attrs: { href: bareUrl.trim() } }]));
+        } else if (bold !== undefined) {
+            pushText(boldPrefix);
+            nodes.push(textNode(bold, [{ type: 'strong' }]));
+        } else {
+            pushText(italicPrefix);
+            nodes.push(textNode(italic, [{ type: 'em' }]));
+        }
+        lastIndex = match.index + match[0].length;
+    }
+    pushText(text.slice(lastIndex));
+
+    return nodes;
+}
+
+const paragraph = (lines: string[]): AdfNode => {
+    const content: AdfNode[] = [];
+    lines.forEach((line, index) => {
+        if (index > 0) {
+            content.push({ type: 'hardBreak' });
+        }
+        content.push(...parseInline(line));
+    });
+    return { type: 'paragraph', content };
+};
+
+interface ListLine {
+    depth: number;
+    ordered: boolean;
+    text: string;
+}
+
+// Consecutive "* item" / "** nested" / "# ordered" lines -> nested bulletList/orderedList nodes
+function buildList(items: ListLine[], depth: number): AdfNode {
+    const list: AdfNode = { type: items[0].ordered ? 'orderedList' : 'bulletList', content: [] };
+    let index = 0;
+    while (index < items.length) {
+        const item: AdfNode = { type: 'listItem', content: [paragraph([items[index].text])] };
+        index++;
+
+        const nestedStart = index;
+        while (index < items.length && items[index].depth > depth) {
+            index++;
+        }
+        if (index > nestedStart) {
+            item.content!.push(buildList(items.slice(nestedStart, index), depth + 1));
+        }
+        list.content!.push(item);
+    }
+    return list;
+}
+
+// "||Header||Header||" or "|cell|cell|"
+const parseTableRow = (line: string): AdfNode => {
+    const trimmed = line.trim();
+    const separator = trimmed.startsWith('||') ? '||' : '|';
+    const cells = trimmed.split(separator).slice(1);
+    if (cells.length > 0 && !cells[cells.length - 1].trim()) {
+        cells.pop();
+    }
+    return {
+        type: 'tableRow',
+        content: cells.map((cell) => ({
+            type: separator === '||' ? 'tableHeader' : 'tableCell',
+            content: [paragraph([cell.trim()])],
+        })),
+    };
+};
+
+/**
+ * Converts Jira wiki markup to an ADF document.
+ */
+export function wikiToAdf(text: string): AdfDocument {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const content: AdfNode[] = [];
+    let paragraphLines: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraphLines.length > 0) {
+            content.push(paragraph(paragraphLines));
+            paragraphLines = [];
+        }
+    };
+
+    let index = 0;
+    while (index < lines.length) {
+        const line = lines[index];
+        const trimmed = line.trim();
+
+        const codeStart = trimmed.match(/^\{(code|noformat)(?::([^}]*))?\}(.*)$/);
+        if (codeStart) {
+            flushParagraph();
+            const closing = `{${codeStart[1]}}`;
+            const codeLines: string[] = [];
+            let current = codeStart[3];
+            index++;
+            // Collect lines up to the closing tag, which may be on the opening line too
+            while (!current.includes(closing) && index < lines.length) {
+                codeLines.push(current);
+                current = lines[index];
+                index++;
+            }
+            codeLines.push(current.split(closing)[0]);
+            const code = codeLines.join('\n').replace(/^\n+|\n+$/g, '');
+
+            const language = codeStart[1] === 'code' && codeStart[2] ? codeStart[2].split('|')[0] : undefined;
+            content.push({
+                type: 'codeBlock',
+                ...(language ? { attrs: { language } } : {}),
+                content: code ? [textNode(code)] : [],
+            });
+            continue;
+        }
+
+        const heading = trimmed.match(/^h([1-6])\.\s*(.*)$/);
+        if (heading) {
+            flushParagraph();
+            content.push({ type: 'heading', attrs: { level: Number(heading[1]) }, content: parseInline(heading[2]) });
+            index++;
+            continue;
+        }
+
+        if (/^-{4,}$/.test(trimmed)) {
+            flushParagraph();
+            content.push({ type: 'rule' });
+            index++;
+            continue;
+        }
+
+        if (/^([*#]+|-)\s+/.test(trimmed)) {
+            flushParagraph();
+            const items: ListLine[] = [];
+            let listMatch: RegExpMatchArray | null;
+            while (index < lines.length && (listMatch = lines[index].trim().match(/^([*#]+|-)\s+(.*)$/))) {
+                const marker = listMatch[1];
+                const ordered = marker[marker.length - 1] === '#';
+                // "* item" followed by "# item" at the same level starts another list
+                if (items.length > 0 && marker.length <= items[0].depth && ordered !== items[0].ordered) {
+                    break;
+                }
+                items.push({ depth: marker.length, ordered, text: listMatch[2] });
+                index++;
+            }
+            content.push(buildList(items, items[0].depth));
+            continue;
+        }
+
+        if (trimmed.startsWith('|')) {
+            flushParagraph();
+            const rows: AdfNode[] = [];
+            while (index < lines.length && lines[index].trim().startsWith('|')) {
+                rows.push(parseTableRow(lines[index]));
+                index++;
+            }
+            content.push({ type: 'table', content: rows });
+            continue;
+        }
+
+        if (trimmed === '') {
+            flushParagraph();
+        } else {
+            paragraphLines.push(line);
+        }
+        index++;
+    }
+    flushParagraph();
+
+    return { version: 1, type: 'doc', content };
+}
+
+function inlineToWiki(nodes: AdfNode[] = []): string {
+    return nodes.map((node) => {
+        switch (node.type) {
+            case 'text': {
+                let text = node.text || '';
+                (node.marks || []).forEach((mark) => {
+                    if (mark.type === 'strong') text = `*${text}*`;
+                    else if (mark.type === 'em') text = `_${text}_`;
+                    else if (mark.type === 'code') text = `{{${text}}}`;
+                    else if (mark.type === 'strike') text = `-${text}-`;
+                    else if (mark.type === 'underline') text = `+${text}+`;
+                    else if (mark.type === 'link') text = text === mark.attrs?.href ? `[${text}]` : `[${text}|${mark.attrs?.href}]`;
+                });
+                return text;
+            }
+            case 'hardBreak':
+                return '\n';
+            case 'mention':
+            case 'status':
+                return node.attrs?.text || '';
+            case 'emoji':
+                return node.attrs?.text || node.attrs?.shortName || '';
+            case 'inlineCard':
+                return node.attrs?.url ? `[${node.attrs.url}]` : '';
+            default:
+                return inlineToWiki(node.content);
+        }
+    }).join('');
+}
+
+function listToWiki(list: AdfNode, prefix: string): string[] {
+    const marker = prefix + (list.type === 'orderedList' ? '#' : '*');
+    const lines: string[] = [];
+    (list.content || []).forEach((item) => {
+        const [first, ...rest] = item.content || [];
+        const isNestedList = (node?: AdfNode) => node?.type === 'bulletList' || node?.type === 'orderedList';
+
+        lines.push(`${marker} ${first && !isNestedList(first) ? inlineToWiki(first.content) : ''}`);
+        (isNestedList(first) ? [first, ...rest] : rest).forEach((child) => {
+            lines.push(...(isNestedList(child) ? listToWiki(child, marker) : [blockToWiki(child)]));
+        });
+    });
+    return lines;
+}
+
+function blockToWiki(node: AdfNode): string {
+    switch (node.type) {
+        case 'paragraph':
+            return inlineToWiki(node.content);
+        case 'heading':
+            return `h${node.attrs?.level || 1}. ${inlineToWiki(node.content)}`;
+        case 'bulletList':
+        case 'orderedList':
+            return listToWiki(node, '').join('\n');
+        case 'codeBlock': {
+            const language = node.attrs?.language ? `:${node.attrs.language}` : '';
+            return `{code${language}}\n${inlineToWiki(node.content)}\n{code}`;
+        }
+        case 'rule':
+            return '----';
+        case 'blockquote':
+            return `{quote}\n${blocksToWiki(node.content)}\n{quote}`;
+        case 'table':
+            return (node.content || []).map((row) => {
+                const cells = row.content || [];
+                const separator = cells.length > 0 && cells[0].type === 'tableHeader' ? '||' : '|';
+                return separator + cells.map((cell) => blocksToWiki(cell.content).replace(/\n/g, ' ')).join(separator) + separator;
+            }).join('\n');
+        case 'mediaSingle':
+        case 'mediaGroup':
+            return '';
+        default:
+            return node.content ? blocksToWiki(node.content) : inlineToWiki([node]);
+    }
+}
+
+function blocksToWiki(nodes: AdfNode[] = []): string {
+    const parts: string[] = [];
+    nodes.forEach((node, index) => {
+        // Two paragraphs in a row need an empty line between them, otherwise they merge into one
+        if (index > 0 && node.type === 'paragraph' && nodes[index - 1].type === 'paragraph') {
+            parts.push('');
+        }
+        parts.push(blockToWiki(node));
+    });
+    return parts.join('\n');
+}
+
+/**
+ * Converts an ADF document back to wiki markup, so v3 fields go through the same parsing pipeline as v2 ones.
+ */
+export function adfToWiki(document: AdfDocument | AdfNode): string {
+    return blocksToWiki(document.content);
+}
+
+// Markup a wiki line starts with before its inline text: heading, list and table markers
+const LINE_PREFIX_PATTERN = /^\s*(?:h[1-6]\.\s*|[*#]+\s+|-\s+|\|\|?)/;
+
+// Lines of the inline content of a heading or paragraph, split at hard breaks, with their nodes
+function getInlineLines(node: AdfNode): AdfNode[][] {
+    const lines: AdfNode[][] = [[]];
+    (node.content || []).forEach((child) => {
+        if (child.type === 'hardBreak') {
+            lines.push([]);
+        } else {
+            lines[lines.length - 1].push(child);
+        }
+    });
+    return lines;
+}
+
+function collectTextBlocks(nodes: AdfNode[] = [], blocks: AdfNode[] = []): AdfNode[] {
+    nodes.forEach((node) => {
+        if (node.type === 'heading' || node.type === 'paragraph') {
+            blocks.push(node);
+        } else if (node.type !== 'codeBlock') {
+            collectTextBlocks(node.content, blocks);
+        }
+    });
+    return blocks;
+}
+
+/**
+ * Appends text to lines of an ADF document in place of re-converting the whole document from wiki markup:
+ * the converter doesn't model panels, colors, mentions and other Cloud markup, which would be lost.
+ * Every change must only append to its line (after starts with before); lines are matched in document order
+ * by their inline text. Throws if a line is not found, so nothing is written instead of a damaged document.
+ */
+export function appendToAdfLines(document: AdfDocument, changes: Array<{ before: string; after: string }>): AdfDocument {
+    const patched: AdfDocument = JSON.parse(JSON.stringify(document));
+    const lines = collectTextBlocks(patched.content).flatMap((block) => getInlineLines(block).map((nodes) => ({ block, nodes })));
+
+    let cursor = 0;
+    changes.forEach(({ before, after }) => {
+        if (!after.startsWith(before)) {
+            throw new Error(`Изменение строки «${before}» не сводится к дописыванию текста`);
+        }
+        const text = before.replace(LINE_PREFIX_PATTERN, '').trim();
+        const position = lines.findIndex((line, index) =>
+            index >= cursor && line.nodes.length > 0 && inlineToWiki(line.nodes).trim() === text
+        );
+        if (position === -1) {
+            throw new Error(`Строка «${before}» не найдена в ADF-документе`);
+        }
+        cursor = position + 1;
+
+        const { block, nodes } = lines[position];
+        // Plain text after the last node of the line, so the marks of the title don't extend to the appended text
+        const lastNode = nodes[nodes.length - 1];
+        const insertAt = block.content!.indexOf(lastNode) + 1;
+        block.content!.splice(insertAt, 0, textNode(after.slice(before.length)));
+    });
+
+    return patched;
+}
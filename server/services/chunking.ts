@@ -0,0 +1,206 @@
+// Splits long decompositions for the LLM and stitches the parsed chunks back together
+import { DecompositionBlock } from 'shared/schema';
+import { mapWithConcurrency } from './jira-requests';
+
+// Universal task pattern - поддерживаем задачи в списках типа * *[backend] Task name*
+export const TASK_TITLE_PATTERN = /^(\*|h[1-6]\. )?\s*\*?(\S+ )?\[([a-z]+(?:[.-][a-z]+)*)\]\s*(.+?)\*?\s*\*?$/i;
+export const HEADING_PATTERN = /^h([1-6])\.\s(.+)$/;
+
+// The answer repeats the text of the chunk and adds task info, so a chunk must leave room in the output limit
+const DEFAULT_CHUNK_CHARS = 8000;
+const CHUNK_CONCURRENCY = 3;
+
+export interface DecompositionChunk {
+    text: string;
+    firstLine: number; // 1-based lines of the original text, for error messages
+    lastLine: number;
+}
+
+export interface ChunkParseOptions {
+    onBlock?: (block: DecompositionBlock, index: number) => void;
+    signal?: AbortSignal;
+}
+
+export type ChunkParser = (text: string, options: ChunkParseOptions) => Promise<DecompositionBlock[]>;
+
+export const getChunkSize = () => Number(process.env.LLM_CHUNK_CHARS) || DEFAULT_CHUNK_CHARS;
+
+const normalizeContent = (content: string) => content.trim().replace(/\s+/g, ' ');
+
+/**
+ * Splits the text at lines where the regexp parser starts a new block: task titles and headings that end
+ * the current task. Headings inside a task description never start a chunk. A section longer than maxChars
+ * becomes a chunk of its own.
+ */
+export function splitDecomposition(text: string, maxChars: number): DecompositionChunk[] {
+    const lines = text.split('\n');
+    const sections: Array<{ start: number; end: number; length: number }> = [];
+    // As in the regexp parser: 0 outside a task, the heading level of the task, 10 for tasks in lists
+    let taskLevel = 0;
+
+    lines.forEach((line, index) => {
+        const taskMatch = line.match(TASK_TITLE_PATTERN);
+        const headingMatch = line.match(HEADING_PATTERN);
+        let boundary = false;
+        if (taskMatch) {
+            boundary = true;
+            taskLevel = taskMatch[1]?.startsWith('h') ? parseInt(taskMatch[1].slice(1)) : 10;
+        } else if (headingMatch && (taskLevel === 0 || parseInt(headingMatch[1]) <= taskLevel)) {
+            boundary = true;
+            taskLevel = 0;
+        }
+
+        const last = sections[sections.length - 1];
+        if (boundary || !last) {
+            sections.push({ start: index, end: index + 1, length: line.length + 1 });
+        } else {
+            last.end = index + 1;
+            last.length += line.length + 1;
+        }
+    });
+
+    const chunks: DecompositionChunk[] = [];
+    let start = 0;
+    let end = 0;
+    let length = 0;
+    const addChunk = () => {
+        if (end > start) {
+            chunks.push({ text: lines.slice(start, end).join('\n'), firstLine: start + 1, lastLine: end });
+        }
+    };
+    sections.forEach((section) => {
+        if (length > 0 && length + section.length > maxChars) {
+            addChunk();
+            start = section.start;
+            length = 0;
+        }
+        end = section.end;
+        length += section.length;
+    });
+    addChunk();
+
+    return chunks;
+}
+
+/**
+ * Joins blocks of consecutive chunks, shifting dependencies by the position of the chunk. At the edges, a block
+ * repeated by both chunks is kept once, and two text blocks are merged: the parser never puts them side by side.
+ */
+export function stitchChunkBlocks(chunkBlocks: DecompositionBlock[][]): DecompositionBlock[] {
+    const result: DecompositionBlock[] = [];
+
+    chunkBlocks.forEach((blocks) => {
+        // Index in the result of every block of the chunk
+        const indexes: number[] = [];
+        const added: number[] = [];
+
+        blocks.forEach((block, localIndex) => {
+            const previous = result[result.length - 1];
+            if (localIndex === 0 && previous && previous.type === block.type) {
+                if (normalizeContent(previous.content) === normalizeContent(block.content)
+                    && previous.taskInfo?.title === block.taskInfo?.title) {
+                    indexes.push(result.length - 1);
+                    return;
+                }
+                if (block.type === 'text') {
+                    result[result.length - 1] = { ...previous, content: `${previous.content}\n${block.content}` };
+                    indexes.push(result.length - 1);
+                    return;
+                }
+            }
+            indexes.push(result.length);
+            added.push(result.length);
+            result.push(block);
+        });
+
+        added.forEach((index) => {
+            const block = result[index];
+            if (block.taskInfo?.dependsOn) {
+                const dependsOn = block.taskInfo.dependsOn
+                    .map((dependency) => indexes[dependency])
+                    .filter((dependency) => dependency !== undefined);
+                result[index] = { ...block, taskInfo: { ...block.taskInfo, dependsOn } };
+            }
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Parses chunks concurrently and stitches the blocks. Streamed blocks of a chunk are sent once every previous
+ * chunk is done, when their position in the result is known. Streamed indexes go through the same edge dedupe
+ * and merge as the result, so they match it. The first failed chunk cancels the others.
+ */
+export async function parseInChunks(
+    chunks: DecompositionChunk[],
+    parseChunk: ChunkParser,
+    { onBlock, signal }: ChunkParseOptions
+): Promise<DecompositionBlock[]> {
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    if (signal?.aborted) {
+        abort();
+    }
+    signal?.addEventListener('abort', abort);
+
+    const chunkBlocks: DecompositionBlock[][] = chunks.map(() => []);
+    const finished = chunks.map(() => false);
+    const isLive = (chunk: number) => finished.slice(0, chunk).every(Boolean);
+
+    // Sends the stitched blocks from the last block before the chunk (it may absorb the chunk's first block)
+    // to the end of the live chunks
+    const sendFrom = (chunk: number) => {
+        let lastLive = chunk;
+        while (finished[lastLive] && lastLive + 1 < chunks.length) {
+            lastLive++;
+        }
+        const start = Math.max(0, stitchChunkBlocks(chunkBlocks.slice(0, chunk)).length - 1);
+        stitchChunkBlocks(chunkBlocks.slice(0, lastLive + 1))
+            .slice(start)
+            .forEach((block, index) => onBlock?.(block, start + index));
+    };
+
+    let failedChunk = -1;
+    const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, chunkIndex) => {
+        try {
+            const blocks = await parseChunk(chunk.text, {
+                signal: abortController.signal,
+                onBlock: onBlock && ((block, index) => {
+                    chunkBlocks[chunkIndex] = [...chunkBlocks[chunkIndex].slice(0, index), block];
+                    if (isLive(chunkIndex)) {
+                        // Only the last block changes: the client drops everything after a streamed index
+                        const stitched = stitchChunkBlocks(chunkBlocks.slice(0, chunkIndex + 1));
+                        onBlock(stitched[stitched.length - 1], stitched.length - 1);
+                    }
+                }),
+            });
+            chunkBlocks[chunkIndex] = blocks;
+            finished[chunkIndex] = true;
+            // The final blocks may differ from the streamed ones after a repair, so the chunk is sent again
+            if (onBlock && isLive(chunkIndex)) {
+                sendFrom(chunkIndex);
+            }
+            return blocks;
+        } catch (error) {
+            if (failedChunk === -1 && !abortController.signal.aborted) {
+                failedChunk = chunkIndex;
+            }
+            abort();
+            throw error;
+        }
+    });
+    signal?.removeEventListener('abort', abort);
+
+    if (signal?.aborted) {
+        throw new Error('Parsing cancelled');
+    }
+    if (failedChunk !== -1) {
+        const chunk = chunks[failedChunk];
+        throw new Error(
+            `Часть ${failedChunk + 1} из ${chunks.length} (строки ${chunk.firstLine}–${chunk.lastLine}): ${results[failedChunk].error?.message}`
+        );
+    }
+
+    return stitchChunkBlocks(results.map((result) => result.value || []));
+}
@@ -0,0 +1,68 @@
+export interface CreationBatch {
+    id: string;
+    instance: string; // Jira instance the issues were created in
+    owner: string | null; // Personal session that created the batch, null for the shared account
+    createdAt: number;
+    issues: Array<{ key: string; summary: string }>;
+    links: Array<{ parentKey: string; childKey: string; epic?: boolean }>; // epic: the parent's link to the created epic
+    dependencies: Array<{ blockerKey: string; blockedKey: string }>;
+    sprintIssues: string[]; // Issues moved to a sprint by this batch
+    rolledBack: boolean;
+}
+
+// Keep only recent batches: rollback is meant right after a failed run, not days later
+const MAX_BATCHES = 100;
+
+/**
+ * In-memory registry of issues and links created by each /api/jira/create-tasks request (no database).
+ */
+export class CreationBatchRegistry {
+    private batches = new Map<string, CreationBatch>();
+    // Parents with a creation run in progress: a second run would not see the first one's issues and duplicate them
+    private runningParents = new Set<string>();
+
+    create(instance: string, owner: string | null): CreationBatch {
+        const batch: CreationBatch = {
+            id: `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            instance,
+            owner,
+            createdAt: Date.now(),
+            issues: [],
+            links: [],
+            dependencies: [],
+            sprintIssues: [],
+            rolledBack: false,
+        };
+
+        this.batches.set(batch.id, batch);
+        if (this.batches.size > MAX_BATCHES) {
+            // Map keeps insertion order, so the first key is the oldest batch
+            const oldestId = this.batches.keys().next().value;
+            if (oldestId) {
+                this.batches.delete(oldestId);
+            }
+        }
+
+        return batch;
+    }
+
+    get(batchId: string): CreationBatch | undefined {
+        return this.batches.get(batchId);
+    }
+
+    /**
+     * Marks a creation run for the parent as started; false if another run for it hasn't finished yet.
+     */
+    startRun(instance: string, parentKey: string): boolean {
+        const runKey = `${instance}:${parentKey}`;
+        if (this.runningParents.has(runKey)) {
+            return false;
+        }
+        this.runningParents.add(runKey);
+        return true;
+    }
+
+    finishRun(instance: string, parentKey: string): void {
+        this.runningParents.delete(`${instance}:${parentKey}`);
+    }
+}
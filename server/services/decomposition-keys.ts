@@ -0,0 +1,82 @@
+import crypto from 'crypto';
+import { DecompositionChange, DecompositionIssueKey } from 'shared/schema';
+import { HEADING_PATTERN, TASK_TITLE_PATTERN } from './chunking';
+
+// Separator between the task header and the created issue key
+const KEY_SEPARATOR = ' — ';
+
+// Compare headers by letters and digits only: markup, brackets and punctuation differ between parsers
+const normalize = (text: string): string => text
+    .toLowerCase()
+    .replace(/[^a-zа-яё0-9]+/g, ' ')
+    .trim();
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// HH-1 must not be found inside HH-12 or XHH-1
+const containsKey = (line: string, key: string): boolean =>
+    new RegExp(`(?<![A-Za-z0-9_-])${escapeRegExp(key)}(?!\\d)`).test(line);
+
+// Only task titles and headings are headers: description lines may mention the title too
+const isHeaderOf = (line: string, task: DecompositionIssueKey): boolean => {
+    const header = line.trimEnd(); // \r of CRLF text is kept in lines
+    if (!TASK_TITLE_PATTERN.test(header) && !HEADING_PATTERN.test(header)) {
+        return false;
+    }
+    if (task.repository && !line.toLowerCase().includes(`[${task.repository.toLowerCase()}]`)) {
+        return false;
+    }
+    const title = normalize(task.title);
+    return title.length > 0 && normalize(line).includes(title);
+};
+
+/**
+ * Appends issue keys to task headers of the decomposition markup, e.g. "h2. [frontend] Title — HH-12345".
+ * Only header lines are touched: line endings, trailing whitespace and the rest of the text stay as is.
+ */
+export function addIssueKeys(text: string, tasks: DecompositionIssueKey[]): {
+    text: string;
+    changes: DecompositionChange[];
+    unmatched: DecompositionIssueKey[];
+} {
+    const lines = text.split('\n');
+    const usedLines = new Set<number>();
+    const changes: DecompositionChange[] = [];
+    const unmatched: DecompositionIssueKey[] = [];
+
+    // Tasks go in the order of the text, so look for the next header after the previous one first
+    let cursor = 0;
+    const findHeader = (task: DecompositionIssueKey, from: number) => lines.findIndex(
+        (line, index) => index >= from && !usedLines.has(index) && isHeaderOf(line, task)
+    );
+
+    for (const task of tasks) {
+        let lineIndex = findHeader(task, cursor);
+        if (lineIndex === -1) {
+            lineIndex = findHeader(task, 0);
+        }
+        if (lineIndex === -1) {
+            unmatched.push(task);
+            continue;
+        }
+        usedLines.add(lineIndex);
+        cursor = lineIndex + 1;
+
+        const before = lines[lineIndex];
+        // Repeated runs must not append the same key twice
+        if (containsKey(before, task.key)) {
+            continue;
+        }
+
+        const after = before.replace(/\s*$/, (trailing) => `${KEY_SEPARATOR}${task.key}${trailing}`);
+        lines[lineIndex] = after;
+        changes.push({ line: lineIndex + 1, before: before.trimEnd(), after: after.trimEnd() });
+    }
+
+    return { text: lines.join('\n'), changes, unmatched };
+}
+
+/**
+ * Fingerprint of the field value a preview was made from: the write is rejected if the text has changed since.
+ */
+export const getTextHash = (text: string): string => crypto.createHash('sha256').update(text).digest('hex');
@@ -0,0 +1,124 @@
+import { DecompositionBlock } from 'shared/schema';
+
+// Explicit dependency: the reference after the phrase may be any task of the decomposition
+const STRONG_MARKERS = ['зависит от', 'зависят от', 'блокируется', 'заблокирована', 'заблокирован', 'depends on', 'blocked by', 'requires'];
+// "после", "after" are also used in plain descriptions ("после логина показываем..."),
+// so they count only when followed by "#N" or "[repo]"
+const WEAK_MARKERS = ['после', 'когда будет готов', 'когда будут готовы', 'ждём', 'ждем', 'ждёт', 'ждет', 'after', 'once', 'waits for'];
+
+// Words too common in task titles to identify a task
+const STOP_WORDS = new Set([
+    'для', 'при', 'как', 'что', 'это', 'или', 'все', 'the', 'and', 'for', 'with', 'from', 'that', 'this',
+    'задача', 'задачи', 'задачу', 'сделать', 'добавить', 'готов', 'готова', 'готово', 'ready', 'task',
+]);
+
+const WORD_PATTERN = /[a-zа-яё0-9]+/g;
+
+// Word stems, so "миграция" in a title matches "миграции" in a description
+const getStems = (text: string): string[] => (text.toLowerCase().match(WORD_PATTERN) || [])
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word))
+    .map((word) => word.slice(0, 5));
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const MARKER_PATTERN = new RegExp(
+    `(^|[^a-zа-яё])(${[...STRONG_MARKERS, ...WEAK_MARKERS].map(escapeRegExp).join('|')})(?![a-zа-яё])`,
+    'gi'
+);
+
+interface TaskReference {
+    index: number;
+    repository: string | null;
+    stems: string[];
+}
+
+/**
+ * Finds the tasks referenced by the text following a dependency phrase, up to the end of the sentence.
+ * "#3" points to block 3 as numbered in the UI, "[repo] title" to a task of that repository,
+ * and after strong phrases the title words alone are enough.
+ */
+function resolveReferences(clause: string, strong: boolean, tasks: TaskReference[], blockCount: number): number[] {
+    const found = new Set<number>();
+
+    (clause.match(/#\d+/g) || []).forEach((reference) => {
+        const index = Number(reference.slice(1)) - 1;
+        if (index >= 0 && index < blockCount && tasks.some((task) => task.index === index)) {
+            found.add(index);
+        }
+    });
+
+    const clauseStems = new Set(getStems(clause.replace(/\[[^\]]*\]/g, ' ')));
+    const score = (task: TaskReference) => task.stems.filter((stem) => clauseStems.has(stem)).length;
+    const pickBest = (candidates: TaskReference[]) => {
+        const scored = candidates.map((task) => ({ task, score: score(task) })).sort((a, b) => b.score - a.score);
+        // Ambiguous matches are left for the user to pick
+        if (scored.length === 1 || (scored.length > 1 && scored[0].score > 0 && scored[0].score > scored[1].score)) {
+            found.add(scored[0].task.index);
+        }
+    };
+
+    const repositories = (clause.match(/\[([^\]|]+)\]/g) || []).map((reference) => reference.slice(1, -1).trim().toLowerCase());
+    repositories.forEach((repository) => {
+        pickBest(tasks.filter((task) => task.repository === repository));
+    });
+
+    if (found.size === 0 && strong && clauseStems.size > 0) {
+        pickBest(tasks.filter((task) => score(task) > 0));
+    }
+
+    return Array.from(found);
+}
+
+/**
+ * Looks for dependency phrases ("после [backend] API", "зависит от миграции", "blocked by #2") in task titles
+ * and descriptions and fills taskInfo.dependsOn with the indexes of the referenced task blocks.
+ */
+export function detectDependencies(blocks: DecompositionBlock[]): DecompositionBlock[] {
+    const tasks: TaskReference[] = blocks.flatMap((block, index) => block.type === 'task' && block.taskInfo
+        ? [{
+            index,
+            repository: block.taskInfo.repository ? block.taskInfo.repository.toLowerCase() : null,
+            stems: getStems(block.taskInfo.title),
+        }]
+        : []);
+
+    return blocks.map((block, index) => {
+        if (block.type !== 'task' || !block.taskInfo) {
+            return block;
+        }
+
+        const otherTasks = tasks.filter((task) => task.index !== index);
+        const dependsOn = new Set<number>(block.taskInfo.dependsOn || []);
+        const text = `${block.taskInfo.title}\n${block.content}`;
+
+        MARKER_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = MARKER_PATTERN.exec(text)) !== null) {
+            const marker = match[2].toLowerCase();
+            const rest = text.slice(match.index + match[0].length);
+            // The reference ends with the sentence or the line
+            const clause = rest.split(/[\n;]|\.(?:\s|$)/)[0];
+            const strong = STRONG_MARKERS.includes(marker);
+            resolveReferences(clause, strong, otherTasks, blocks.length).forEach((dependency) => dependsOn.add(dependency));
+        }
+
+        return dependsOn.size > 0
+            ? { ...block, taskInfo: { ...block.taskInfo, dependsOn: Array.from(dependsOn).sort((a, b) => a - b) } }
+            : block;
+    });
+}
+
+/**
+ * Drops dependencies that don't point to another task block: LLMs sometimes count from 1 or reference text blocks.
+ */
+export function sanitizeDependencies(blocks: DecompositionBlock[]): DecompositionBlock[] {
+    return blocks.map((block, index) => {
+        if (!block.taskInfo?.dependsOn) {
+            return block;
+        }
+        const dependsOn = Array.from(new Set(block.taskInfo.dependsOn)).filter((dependency) =>
+            Number.isInteger(dependency) && dependency !== index && blocks[dependency]?.type === 'task'
+        );
+        return { ...block, taskInfo: { ...block.taskInfo, dependsOn } };
+    });
+}
@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { EstimationMapping, DecompositionBlock } from 'shared/schema';
 import { Estimation } from 'shared/types.ts';
+import { addWorkingDays, WORKING_DAYS_PER_SP } from 'shared/schedule.ts';
 
 const defaultMapping: EstimationMapping = {
     XS: 0.5,
@@ -132,25 +133,49 @@ export class EstimationService {
         return Math.round(additional * 2) / 2; // Round to nearest 0.5
     }
 
-    calculateWorkingDays(totalSP: number): number {
-        return Math.ceil(totalSP * 2); // 1 SP = 2 working days
+    calculateTotalWithRisks(estimation: Pick<Estimation, 'baseEstimation' | 'risks'>, riskPercent: number): number {
+        return estimation.baseEstimation + estimation.risks + this.calculateAdditionalRisks(estimation.baseEstimation, riskPercent);
     }
 
-    calculateDeliveryDate(workingDays: number): Date {
-        const currentDate = new Date();
-        let deliveryDate = new Date(currentDate);
-        let daysAdded = 0;
+    /**
+     * T-shirt of a parent's total by the scale of upper bounds from parentFields.estimationScale: the smallest size
+     * that holds the total, the largest one above the scale. Null without a scale.
+     */
+    getParentTShirt(totalSP: number, scale?: Record<string, number>): string | null {
+        const sizes = Object.entries(scale || {}).sort(([, a], [, b]) => a - b);
+        if (sizes.length === 0) {
+            return null;
+        }
+        const size = sizes.find(([, upperBound]) => totalSP <= upperBound) || sizes[sizes.length - 1];
+        return size[0];
+    }
 
-        while (daysAdded < workingDays) {
-            deliveryDate.setDate(deliveryDate.getDate() + 1);
+    /**
+     * Explains in JIRA wiki markup how the total was calculated.
+     */
+    createEstimationComment(
+        estimation: Pick<Estimation, 'baseEstimation' | 'risks' | 'formula' | 'riskFormula'>,
+        riskPercent: number,
+        tShirt: string | null
+    ): string {
+        const additionalRisks = this.calculateAdditionalRisks(estimation.baseEstimation, riskPercent);
+        const total = this.calculateTotalWithRisks(estimation, riskPercent);
+
+        return [
+            'h3. Оценка по декомпозиции',
+            `* Базовая оценка: {{${estimation.formula}}}`,
+            `* Встроенные риски: {{${estimation.riskFormula}}}`,
+            `* Дополнительные риски: {{${riskPercent}% от ${estimation.baseEstimation} SP = ${additionalRisks} SP}}`,
+            `* *Итого: ${estimation.baseEstimation} + ${estimation.risks} + ${additionalRisks} = ${total} SP${tShirt ? ` (${tShirt})` : ''}*`,
+        ].join('\n');
+    }
 
-            // Skip weekends (Saturday = 6, Sunday = 0)
-            if (deliveryDate.getDay() !== 0 && deliveryDate.getDay() !== 6) {
-                daysAdded++;
-            }
-        }
+    calculateWorkingDays(totalSP: number): number {
+        return Math.ceil(totalSP * WORKING_DAYS_PER_SP);
+    }
 
-        return deliveryDate;
+    calculateDeliveryDate(workingDays: number): Date {
+        return addWorkingDays(new Date(), workingDays);
     }
 
     private countItems(items: (string | null)[]): Record<string, number> {
@@ -0,0 +1,195 @@
+// Checks that blocks parsed by an LLM reproduce the decomposition text: models drop or paraphrase lines
+import { DecompositionBlock, FidelityWarning } from 'shared/schema';
+
+// The alignment is quadratic in the number of lines; bigger texts are not checked
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+// Lines sharing this part of their words are one line rewritten by the model, not a dropped and an invented one
+const ALTERED_SIMILARITY = 0.5;
+const MAX_WARNING_LENGTH = 200;
+
+interface SourceLine {
+    lineIndex: number; // Index in the original text, blank lines included
+    text: string;
+}
+
+interface BlockLine {
+    blockIndex: number;
+    text: string;
+}
+
+interface AlignmentStep {
+    source?: number; // Index in the source lines
+    target?: number; // Index in the block lines
+}
+
+// Whitespace is not a difference: models re-indent lists and collapse blank lines
+const normalizeLine = (line: string) => line.trim().replace(/\s+/g, ' ');
+
+const getWords = (text: string) => new Set(text.toLowerCase().split(/[^0-9a-zа-яё]+/i).filter(Boolean));
+
+const squash = (text: string) => text.toLowerCase().replace(/[^0-9a-zа-яё]+/gi, '');
+
+const truncate = (text: string) => text.length > MAX_WARNING_LENGTH ? `${text.slice(0, MAX_WARNING_LENGTH - 3)}...` : text;
+
+function getSimilarity(a: string, b: string): number {
+    const wordsA = getWords(a);
+    const wordsB = getWords(b);
+    if (wordsA.size === 0 || wordsB.size === 0) {
+        return 0;
+    }
+    let common = 0;
+    wordsA.forEach((word) => {
+        if (wordsB.has(word)) {
+            common++;
+        }
+    });
+    return 2 * common / (wordsA.size + wordsB.size);
+}
+
+// Task content doesn't include the title line, so the title is not reported as missing
+const isTitleLine = (text: string, block: DecompositionBlock) => {
+    const title = block.type === 'task' && block.taskInfo ? squash(block.taskInfo.title) : '';
+    return !!title && squash(text).includes(title);
+};
+
+/**
+ * Longest common subsequence of two line lists as a sequence of steps: a line of both lists,
+ * a line of the source only or a line of the target only.
+ */
+function align(source: string[], target: string[]): AlignmentStep[] {
+    const width = target.length + 1;
+    const lengths = new Int32Array((source.length + 1) * width);
+    for (let i = source.length - 1; i >= 0; i--) {
+        for (let j = target.length - 1; j >= 0; j--) {
+            lengths[i * width + j] = source[i] === target[j]
+                ? lengths[(i + 1) * width + j + 1] + 1
+                : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+        }
+    }
+
+    const steps: AlignmentStep[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < source.length || j < target.length) {
+        if (i < source.length && j < target.length && source[i] === target[j]) {
+            steps.push({ source: i++, target: j++ });
+        } else if (j >= target.length || (i < source.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+            steps.push({ source: i++ });
+        } else {
+            steps.push({ target: j++ });
+        }
+    }
+    return steps;
+}
+
+/**
+ * Compares the blocks with the original text line by line and reports missing, altered and invented lines
+ * in block.fidelity. Blocks are re-anchored onto the original: the content of a block becomes the fragment
+ * of the text from its first to its last recognized line, with missing lines put back into the nearest block.
+ */
+export function checkFidelity(originalText: string, blocks: DecompositionBlock[]): DecompositionBlock[] {
+    const rawLines = originalText.split('\n');
+    const sourceLines: SourceLine[] = rawLines.flatMap((line, lineIndex) => {
+        const text = normalizeLine(line);
+        return text ? [{ lineIndex, text }] : [];
+    });
+    const blockLines: BlockLine[] = blocks.flatMap((block, blockIndex) => block.content.split('\n').flatMap((line) => {
+        const text = normalizeLine(line);
+        return text ? [{ blockIndex, text }] : [];
+    }));
+
+    if (sourceLines.length * blockLines.length > MAX_ALIGNMENT_CELLS) {
+        console.warn(`Fidelity check skipped: ${sourceLines.length} source lines and ${blockLines.length} block lines`);
+        return blocks;
+    }
+
+    const warnings: FidelityWarning[][] = blocks.map(() => []);
+    // Block of every original line the model kept, as is or rewritten
+    const owners = new Map<number, number>();
+    const missing: SourceLine[] = [];
+
+    // Lines between two common ones: similar pairs are altered lines, the rest are missing or invented
+    let sourceRun: number[] = [];
+    let targetRun: number[] = [];
+    const resolveRuns = () => {
+        let nextSource = 0;
+        targetRun.forEach((target) => {
+            const blockLine = blockLines[target];
+            const pair = sourceRun.findIndex((source, position) =>
+                position >= nextSource && getSimilarity(sourceLines[source].text, blockLine.text) >= ALTERED_SIMILARITY
+            );
+            if (pair === -1) {
+                warnings[blockLine.blockIndex].push({ kind: 'invented', text: truncate(blockLine.text) });
+                return;
+            }
+            missing.push(...sourceRun.slice(nextSource, pair).map((source) => sourceLines[source]));
+            const sourceLine = sourceLines[sourceRun[pair]];
+            owners.set(sourceLine.lineIndex, blockLine.blockIndex);
+            warnings[blockLine.blockIndex].push({ kind: 'altered', text: truncate(sourceLine.text), llmText: truncate(blockLine.text) });
+            nextSource = pair + 1;
+        });
+        missing.push(...sourceRun.slice(nextSource).map((source) => sourceLines[source]));
+        sourceRun = [];
+        targetRun = [];
+    };
+
+    align(sourceLines.map((line) => line.text), blockLines.map((line) => line.text)).forEach((step) => {
+        if (step.source !== undefined && step.target !== undefined) {
+            resolveRuns();
+            owners.set(sourceLines[step.source].lineIndex, blockLines[step.target].blockIndex);
+        } else if (step.source !== undefined) {
+            sourceRun.push(step.source);
+        } else if (step.target !== undefined) {
+            targetRun.push(step.target);
+        }
+    });
+    resolveRuns();
+
+    // Lines of the original text covered by every block
+    const ranges: Array<{ start: number; end: number } | null> = blocks.map(() => null);
+    const extend = (blockIndex: number, lineIndex: number) => {
+        const range = ranges[blockIndex];
+        ranges[blockIndex] = range
+            ? { start: Math.min(range.start, lineIndex), end: Math.max(range.end, lineIndex) }
+            : { start: lineIndex, end: lineIndex };
+    };
+    owners.forEach((blockIndex, lineIndex) => extend(blockIndex, lineIndex));
+
+    // A missing line goes to the block around it, to the task whose title precedes it or to the previous block
+    let titled = -1;
+    missing.forEach((line) => {
+        const inside = ranges.findIndex((range) => !!range && range.start < line.lineIndex && line.lineIndex < range.end);
+        if (inside !== -1) {
+            warnings[inside].push({ kind: 'missing', text: truncate(line.text) });
+            return;
+        }
+
+        const previous = ranges.findLastIndex((range) => !!range && range.end < line.lineIndex);
+        const next = ranges.findIndex((range, index) => index > previous && !!range);
+        const last = next === -1 ? blocks.length - 1 : next;
+        const title = blocks.findIndex((block, index) =>
+            index > Math.max(previous, titled) && index <= last && isTitleLine(line.text, block)
+        );
+        if (title !== -1) {
+            titled = title;
+            return;
+        }
+
+        const owner = titled > previous ? titled : previous !== -1 ? previous : next;
+        if (owner === -1) {
+            return;
+        }
+        extend(owner, line.lineIndex);
+        warnings[owner].push({ kind: 'missing', text: truncate(line.text) });
+    });
+
+    return blocks.map((block, index) => {
+        const range = ranges[index];
+        const content = range ? rawLines.slice(range.start, range.end + 1).join('\n') : block.content;
+        // Whitespace-only differences are fixed silently
+        if (warnings[index].length === 0) {
+            return { ...block, content };
+        }
+        return { ...block, content, fidelity: { warnings: warnings[index], restored: content !== block.content } };
+    });
+}
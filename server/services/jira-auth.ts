@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { JiraSettings } from 'shared/schema';
+
+type JiraAuthSettings = JiraSettings['auth'];
+
+/**
+ * Builds the Authorization header of a Jira request. Strategies that sign requests (OAuth 1.0a)
+ * need the method and the full URL; token-based ones ignore them.
+ */
+export interface JiraAuthStrategy {
+    readonly type: JiraAuthSettings['type'];
+    describe(): string;
+    getAuthorization(method: string, url: string): Promise<string>;
+}
+
+const maskSecret = (secret: string) => '*'.repeat(Math.min(secret.length, 10));
+
+class BasicAuth implements JiraAuthStrategy {
+    readonly type = 'basic';
+
+    constructor(private user: string, private token: string) {}
+
+    describe() {
+        return `Basic, user ${this.user}, token ${maskSecret(this.token)}`;
+    }
+
+    async getAuthorization() {
+        return `Basic ${Buffer.from(`${this.user}:${this.token}`).toString('base64')}`;
+    }
+}
+
+class BearerAuth implements JiraAuthStrategy {
+    readonly type = 'bearer';
+
+    constructor(private token: string) {}
+
+    describe() {
+        return `Bearer (personal access token ${maskSecret(this.token)})`;
+    }
+
+    async getAuthorization() {
+        return `Bearer ${this.token}`;
+    }
+}
+
+// RFC 3986 percent-encoding required by the OAuth 1.0a signature base string
+const oauthEncode = (value: string) => encodeURIComponent(value)
+    .replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * OAuth 1.0a with RSA-SHA1 signatures, as used by Jira Server/Data Center application links.
+ */
+class OAuth1Auth implements JiraAuthStrategy {
+    readonly type = 'oauth1';
+
+    constructor(private consumerKey: string, private privateKey: string, private accessToken: string) {}
+
+    describe() {
+        return `OAuth 1.0a (consumer ${this.consumerKey}, token ${maskSecret(this.accessToken)})`;
+    }
+
+    async getAuthorization(method: string, url: string) {
+        const oauthParams: Record<string, string> = {
+            oauth_consumer_key: this.consumerKey,
+            oauth_nonce: crypto.randomBytes(16).toString('hex'),
+            oauth_signature_method: 'RSA-SHA1',
+            oauth_timestamp: Math.floor(Date.now() / 1000).toString(),
+            oauth_token: this.accessToken,
+            oauth_version: '1.0',
+        };
+
+        // Query parameters are signed together with the oauth_* ones
+        const parsedUrl = new URL(url);
+        const params: Array<[string, string]> = Object.entries(oauthParams);
+        parsedUrl.searchParams.forEach((value, key) => params.push([key, value]));
+        const normalizedParams = params
+            .map(([key, value]) => [oauthEncode(key), oauthEncode(value)])
+            .sort(([keyA, valueA], [keyB, valueB]) => keyA === keyB ? (valueA < valueB ? -1 : 1) : (keyA < keyB ? -1 : 1))
+            .map(([key, value]) => `${key}=${value}`)
+            .join('&');
+
+        const baseUrl = `${parsedUrl.protocol}//${parsedUrl.host}${parsedUrl.pathname}`;
+        const baseString = [method.toUpperCase(), oauthEncode(baseUrl), oauthEncode(normalizedParams)].join('&');
+        const signature = crypto.createSign('RSA-SHA1').update(baseString).sign(this.privateKey, 'base64');
+
+        const header = Object.entries({ ...oauthParams, oauth_signature: signature })
+            .map(([key, value]) => `${key}="${oauthEncode(value)}"`)
+            .join(', ');
+        return `OAuth ${header}`;
+    }
+}
+
+// Refresh the access token a bit before it expires, so a request never goes out with a stale one
+const OAUTH2_EXPIRY_MARGIN = 60 * 1000;
+
+/**
+ * OAuth 2.0 with a refresh token obtained once through the application link consent.
+ * Without a refresh token, a static access token from JIRA_TOKEN is used as is.
+ */
+class OAuth2Auth implements JiraAuthStrategy {
+    readonly type = 'oauth2';
+    private accessToken: string | null;
+    private expiresAt = Infinity;
+    private refreshing: Promise<string> | null = null;
+
+    constructor(
+        private tokenUrl: string,
+        private clientId: string,
+        private clientSecret: string,
+        private refreshToken: string,
+        accessToken: string
+    ) {
+        this.accessToken = accessToken || null;
+        if (!this.accessToken || this.refreshToken) {
+            this.expiresAt = 0;
+        }
+    }
+
+    describe() {
+        return `OAuth 2.0 (client ${this.clientId}, ${this.refreshToken ? 'refresh token' : 'static access token'})`;
+    }
+
+    async getAuthorization() {
+        if (!this.accessToken || (this.refreshToken && Date.now() > this.expiresAt - OAUTH2_EXPIRY_MARGIN)) {
+            // Concurrent requests wait for the same refresh instead of spending the refresh token twice
+            this.refreshing = this.refreshing || this.refreshAccessToken().finally(() => {
+                this.refreshing = null;
+            });
+            await this.refreshing;
+        }
+        return `Bearer ${this.accessToken}`;
+    }
+
+    private async refreshAccessToken(): Promise<string> {
+        console.log(`[JIRA] Refreshing OAuth 2.0 access token at ${this.tokenUrl}`);
+
+        const response = await fetch(this.tokenUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+            body: new URLSearchParams({
+                grant_type: 'refresh_token',
+                client_id: this.clientId,
+                client_secret: this.clientSecret,
+                refresh_token: this.refreshToken,
+            }).toString(),
+        });
+
+        if (!response.ok) {
+            throw new Error(`OAuth 2.0 token refresh failed (${response.status}): ${await response.text()}`);
+        }
+
+        const data = await response.json() as { access_token: string; expires_in?: number; refresh_token?: string };
+        this.accessToken = data.access_token;
+        this.expiresAt = data.expires_in ? Date.now() + data.expires_in * 1000 : Infinity;
+        // Rotating refresh tokens: the old one is no longer valid
+        if (data.refresh_token) {
+            this.refreshToken = data.refresh_token;
+        }
+        return data.access_token;
+    }
+}
+
+/**
+ * Creates the strategy selected by the auth section of config/jira.json.
+ * Secrets come from environment variables; missing ones are reported all at once.
+ */
+export function createJiraAuth(settings: JiraAuthSettings, env: NodeJS.ProcessEnv = process.env): JiraAuthStrategy {
+    const required = (names: string[]) => {
+        const missing = names.filter((name) => !env[name]);
+        if (missing.length > 0) {
+            missing.forEach((name) => console.error(`[JIRA] ${name}: ✗ missing`));
+            throw new Error(`JIRA ${settings.type} auth is not configured. Please set ${missing.join(', ')} environment variables.`);
+        }
+    };
+
+    switch (settings.type) {
+        case 'basic':
+            required(['JIRA_USER', 'JIRA_TOKEN']);
+            return new BasicAuth(env.JIRA_USER!, env.JIRA_TOKEN!);
+        case 'bearer':
+            required(['JIRA_TOKEN']);
+            return new BearerAuth(env.JIRA_TOKEN!);
+        case 'oauth1': {
+            required(['JIRA_TOKEN']);
+            const keyPath = path.resolve(process.cwd(), settings.privateKeyPath);
+            let privateKey: string;
+            try {
+                privateKey = fs.readFileSync(keyPath, 'utf8');
+            } catch (error: any) {
+                throw new Error(`Could not read OAuth private key from ${settings.privateKeyPath}: ${error.message}`);
+            }
+            return new OAuth1Auth(settings.consumerKey, privateKey, env.JIRA_TOKEN!);
+        }
+        case 'oauth2':
+            if (env.JIRA_OAUTH_REFRESH_TOKEN) {
+                required(['JIRA_OAUTH_CLIENT_SECRET']);
+            } else {
+                required(['JIRA_TOKEN']);
+            }
+            return new OAuth2Auth(
+                settings.tokenUrl,
+                settings.clientId,
+                env.JIRA_OAUTH_CLIENT_SECRET || '',
+                env.JIRA_OAUTH_REFRESH_TOKEN || '',
+                env.JIRA_TOKEN || ''
+            );
+    }
+}
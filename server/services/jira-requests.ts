@@ -0,0 +1,132 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Gateway errors: Jira may have applied the request before the proxy gave up on it
+const GATEWAY_STATUSES = new Set([502, 503, 504]);
+
+// Methods that are safe to repeat when it's unknown whether Jira has processed the request
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+export const isIdempotentMethod = (method: string): boolean => IDEMPOTENT_METHODS.has(method.toUpperCase());
+
+/**
+ * 429 and 503 with Retry-After mean the request was rejected before Jira did anything, so any method is repeated.
+ * Other gateway errors are repeated only for idempotent methods: a repeated POST could create duplicates.
+ */
+export const isRetryableStatus = (status: number, method: string, hasRetryAfter: boolean): boolean => {
+    if (status === 429 || (status === 503 && hasRetryAfter)) {
+        return true;
+    }
+    return GATEWAY_STATUSES.has(status) && isIdempotentMethod(method);
+};
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date. Returns a delay in milliseconds,
+ * or null if the header is missing or malformed.
+ */
+export const parseRetryAfter = (header: string | null): number | null => {
+    if (!header) {
+        return null;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with jitter, so parallel requests don't come back at the same moment
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+    const delay = baseDelayMs * Math.pow(2, attempt);
+    return Math.min(maxDelayMs, delay / 2 + Math.random() * delay / 2);
+};
+
+export const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Limits the number of simultaneous requests to Jira. Waiting requests are served in FIFO order.
+ */
+export class RequestLimiter {
+    private active = 0;
+    private queue: Array<() => void> = [];
+
+    constructor(private maxConcurrency: number) {}
+
+    async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active >= this.maxConcurrency) {
+            await new Promise<void>((resolve) => this.queue.push(resolve));
+        } else {
+            this.active++;
+        }
+
+        try {
+            return await task();
+        } finally {
+            const next = this.queue.shift();
+            if (next) {
+                // The slot passes directly to the next request, active stays the same
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
+
+// Personal sessions have a JiraService each, but the concurrency limit applies to the whole Jira instance
+const instanceLimiters = new Map<string, RequestLimiter>();
+
+export function getInstanceLimiter(instance: string, maxConcurrency: number): RequestLimiter {
+    let limiter = instanceLimiters.get(instance);
+    if (!limiter) {
+        limiter = new RequestLimiter(maxConcurrency);
+        instanceLimiters.set(instance, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Maps items with at most `limit` tasks in flight. Results keep the order of items; failures are returned,
+ * not thrown, so one failed item doesn't hide the others.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<Array<{ value?: R; error?: Error }>> {
+    const results: Array<{ value?: R; error?: Error }> = new Array(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            try {
+                results[index] = { value: await task(items[index], index) };
+            } catch (error: any) {
+                results[index] = { error: error instanceof Error ? error : new Error(String(error)) };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+// Retry counter of the current API request; JiraService is shared between concurrent requests
+const retryStats = new AsyncLocalStorage<{ retries: number }>();
+
+export const recordRetry = (): void => {
+    const stats = retryStats.getStore();
+    if (stats) {
+        stats.retries++;
+    }
+};
+
+/**
+ * Runs the task and counts how many Jira requests were retried inside it.
+ */
+export async function trackRetries<T>(task: () => Promise<T>): Promise<{ result: T; retries: number }> {
+    const stats = { retries: 0 };
+    const result = await retryStats.run(stats, task);
+    return { result, retries: stats.retries };
+}
@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { fromZodError } from 'zod-validation-error';
+import { JiraInstancesConfig, JiraInstancesConfigSchema, JiraSettings, JiraSettingsSchema } from 'shared/schema';
+
+const SETTINGS_FILE = 'jira.json';
+
+// Name of the only instance when config/jira.json holds the settings of a single Jira
+export const DEFAULT_INSTANCE = 'default';
+
+// Prefix of the environment variables read by the auth strategies and the host lookup
+const BASE_ENV_PREFIX = 'JIRA';
+
+export function loadJiraInstances(): JiraInstancesConfig {
+    const configPath = path.resolve(process.cwd(), 'config', SETTINGS_FILE);
+
+    let rawSettings: unknown;
+    try {
+        rawSettings = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error: any) {
+        throw new Error(`Could not read JIRA settings from config/${SETTINGS_FILE}: ${error.message}`);
+    }
+
+    if (rawSettings && typeof rawSettings === 'object' && 'instances' in rawSettings) {
+        const result = JiraInstancesConfigSchema.safeParse(rawSettings);
+        if (!result.success) {
+            throw new Error(`Invalid JIRA settings in config/${SETTINGS_FILE}: ${fromZodError(result.error).message}`);
+        }
+        return result.data;
+    }
+
+    const result = JiraSettingsSchema.safeParse(rawSettings);
+    if (!result.success) {
+        throw new Error(`Invalid JIRA settings in config/${SETTINGS_FILE}: ${fromZodError(result.error).message}`);
+    }
+    return { defaultInstance: DEFAULT_INSTANCE, instances: { [DEFAULT_INSTANCE]: result.data } };
+}
+
+/**
+ * Settings of the named instance, or of the default one.
+ */
+export function loadJiraSettings(instance?: string): JiraSettings {
+    const { defaultInstance, instances } = loadJiraInstances();
+    const name = instance || defaultInstance;
+    if (!Object.hasOwn(instances, name)) {
+        throw new Error(`JIRA instance ${name} is not configured in config/${SETTINGS_FILE}`);
+    }
+    return instances[name];
+}
+
+/**
+ * Environment of an instance as the auth strategies expect it: for the "JIRA_STAGING" prefix,
+ * JIRA_STAGING_TOKEN becomes JIRA_TOKEN. Variables of the default prefix are dropped, so a missing
+ * secret of the instance is reported instead of silently falling back to the production one.
+ */
+export function getInstanceEnv(settings: JiraSettings, env: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+    if (settings.envPrefix === BASE_ENV_PREFIX) {
+        return env;
+    }
+
+    const instanceEnv: NodeJS.ProcessEnv = {};
+    Object.entries(env).forEach(([name, value]) => {
+        if (!name.startsWith(`${BASE_ENV_PREFIX}_`)) {
+            instanceEnv[name] = value;
+        }
+    });
+    Object.entries(env).forEach(([name, value]) => {
+        if (name.startsWith(`${settings.envPrefix}_`)) {
+            instanceEnv[`${BASE_ENV_PREFIX}_${name.slice(settings.envPrefix.length + 1)}`] = value;
+        }
+    });
+    return instanceEnv;
+}
+
+export function getInstanceHost(settings: JiraSettings, env: NodeJS.ProcessEnv = process.env): string {
+    return (settings.host || env[`${settings.envPrefix}_HOST`] || '').replace(/\/+$/, '');
+}
+
+/**
+ * Finds the instance a browse URL points to by its host name.
+ */
+export function findInstanceByUrl(input: string): string | null {
+    let hostname: string;
+    try {
+        hostname = new URL(input.trim()).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+
+    const { instances } = loadJiraInstances();
+    const match = Object.entries(instances).find(([, settings]) => {
+        const host = getInstanceHost(settings);
+        try {
+            return !!host && new URL(host).hostname.toLowerCase() === hostname;
+        } catch {
+            return false;
+        }
+    });
+    return match ? match[0] : null;
+}
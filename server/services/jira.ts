@@ -1,60 +1,175 @@
-import { CreateTaskRequest, JiraTask } from 'shared/schema';
+import {
+    JiraBoard,
+    JiraConnectionStatus,
+    JiraProjectSettings,
+    JiraSettings,
+    JiraSprint,
+    JiraTask,
+    JiraUser,
+    JiraVersion,
+    MockupLink,
+    TaskJiraFields
+} from 'shared/schema';
+import { findInstanceByUrl, getInstanceEnv, getInstanceHost, loadJiraInstances, loadJiraSettings } from './jira-settings';
+import { JiraAuthStrategy, createJiraAuth } from './jira-auth';
+import { AdfDocument, adfToWiki, appendToAdfLines, isAdfDocument, wikiToAdf } from './adf';
+import {
+    RequestLimiter,
+    getBackoffDelay,
+    getInstanceLimiter,
+    isIdempotentMethod,
+    isRetryableStatus,
+    parseRetryAfter,
+    recordRetry,
+    sleep
+} from './jira-requests';
 
 interface JiraConfig {
+    instance: string; // Name of the instance in config/jira.json
     host: string;
-    user: string;
-    token: string;
+    authType: string;
+}
+
+interface JiraMyselfResponse {
+    name?: string; // Jira Server / Data Center
+    accountId?: string; // Jira Cloud
+    displayName: string;
+    emailAddress?: string;
+}
+
+interface JiraProjectVersion {
+    id: string;
+    name: string;
+    archived?: boolean;
+    released?: boolean;
+    releaseDate?: string;
+}
+
+interface AgilePage<T> {
+    values: T[];
+}
+
+interface AgileSprint {
+    id: number;
+    name: string;
+    state: 'active' | 'future' | 'closed';
+    startDate?: string;
+    endDate?: string;
 }
 
+// The Agile API takes at most 50 issues per sprint/backlog move
+const AGILE_MOVE_LIMIT = 50;
+
+const AGILE_BASE = '/rest/agile/1.0';
+
 interface CreateBulkIssuesResponse {
     issues: Array<{ id: string; key: string; self: string }>;
     errors: Array<{ status: number; elementErrors: any; failedElementNumber: number }>;
 }
 
+interface CreateMetaField {
+    fieldId: string;
+    name: string;
+    allowedValues?: Array<{ id: string; value?: string; name?: string }>;
+}
+
+interface CreateMetaFieldsResponse {
+    values?: CreateMetaField[]; // Jira Server / Data Center
+    fields?: CreateMetaField[]; // Jira Cloud
+}
+
 interface CreateIssueResponse {
     id: string;
     key: string;
     self: string;
 }
 
-interface TaskForCreation {
+interface JiraIssueLink {
+    id: string;
+    type: { name: string };
+    inwardIssue?: { id: string; key: string; fields: { summary: string } };
+    outwardIssue?: { id: string; key: string; fields: { summary: string } };
+}
+
+export interface LinkedIssue {
+    linkId?: string; // Only for issue links
+
+    id: string;
+    key: string;
+    summary: string;
+}
+
+export interface BulkIssueResult {
+    issue?: CreateIssueResponse;
+    error?: string;
+}
+
+export interface BulkChunkProgress {
+    chunk: number; // 1-based
+    chunks: number;
+    offset: number; // Index of the chunk's first task
+    results: BulkIssueResult[];
+}
+
+// Personal credentials of a signed-in user; user is needed only for Basic auth
+export interface JiraCredentials {
+    user?: string;
+    token: string;
+}
+
+export interface TaskForCreation extends TaskJiraFields {
+    parentKey?: string; // Parent set at creation for sub-task and field relationships
     summary: string;
     description: string;
     estimation?: string; // XS, S, S+, M, L, XL
-    storyPoints?: number; // customfield_11212
+    storyPoints?: number;
+    startDate?: string; // YYYY-MM-DD
+    dueDate?: string;
+    epicKey?: string; // Set through epic.linkField when the request creates an epic
 }
 
 
+// Discovered field options rarely change, but admins may edit them without notice
+const ESTIMATION_OPTIONS_TTL = 60 * 60 * 1000;
+// Configured options replace unavailable createmeta only for a while: the endpoint may come back
+const ESTIMATION_FALLBACK_TTL = 5 * 60 * 1000;
+
+// /api/config is loaded on every page load, so option discovery there must not wait for retries
+const QUICK_REQUEST_POLICY = { maxRetries: 0, timeoutMs: 5000 };
+
+// Placeholder used by the parsers when a task has no recognizable estimation
+const UNKNOWN_ESTIMATION = '?';
+
 export class JiraService {
     private config: JiraConfig;
+    private settings: JiraSettings;
+    private limiter: RequestLimiter;
+    private auth: JiraAuthStrategy;
+    private connectionStatus: JiraConnectionStatus | null = null;
 
-    // Mapping JIRA estimation values to their IDs
-    private estimationMapping: Record<string, string> = {
-        "0": "25280",
-        "XS": "25281",
-        "S": "25282",
-        "S+": "43622",
-        "M": "25283",
-        "L": "25284",
-        "XL": "25285",
-        "XXL": "25286"
-    };
-
-    constructor() {
-        this.config = {
-            host: process.env.JIRA_HOST || '',
-            user: process.env.JIRA_USER || '',
-            token: process.env.JIRA_TOKEN || '',
-        };
+    // Option IDs of the T-shirt field discovered via createmeta, per project; warning is set for configured ones
+    private estimationOptionsCache = new Map<string, { options: Record<string, string>; fetchedAt: number; warning?: string }>();
 
-        if (!this.config.host || !this.config.user || !this.config.token) {
-            console.error('[JIRA] Configuration check failed:');
-            console.error(`[JIRA] JIRA_HOST: ${this.config.host ? '✓ set' : '✗ missing'}`);
-            console.error(`[JIRA] JIRA_USER: ${this.config.user ? '✓ set' : '✗ missing'}`);
-            console.error(`[JIRA] JIRA_TOKEN: ${this.config.token ? '✓ set' : '✗ missing'}`);
-            throw new Error('JIRA configuration is incomplete. Please check JIRA_HOST, JIRA_USER, and JIRA_TOKEN environment variables.');
+    /**
+     * Without credentials the service acts as the shared account from environment variables.
+     * Without an instance it works with the default one from config/jira.json.
+     */
+    constructor(credentials?: JiraCredentials, instance: string = loadJiraInstances().defaultInstance) {
+        this.settings = loadJiraSettings(instance);
+
+        const host = getInstanceHost(this.settings);
+        if (!host) {
+            console.error(`[JIRA] Configuration check failed for instance ${instance}:`);
+            console.error(`[JIRA] ${this.settings.envPrefix}_HOST: ✗ missing`);
+            throw new Error(`JIRA configuration is incomplete. Please set host of ${instance} in config/jira.json or ${this.settings.envPrefix}_HOST environment variable.`);
         }
 
+        this.auth = credentials
+            ? createJiraAuth(this.settings.auth, { JIRA_USER: credentials.user, JIRA_TOKEN: credentials.token })
+            : createJiraAuth(this.settings.auth, getInstanceEnv(this.settings));
+        this.config = { instance, host, authType: this.auth.type };
+        this.limiter = getInstanceLimiter(instance, this.settings.requests.maxConcurrency);
+
         this.logInit();
     }
 
@@ -62,45 +177,169 @@ export class JiraService {
         return { ...this.config };
     }
 
-    private logInit() {
-        console.log(`[JIRA] Initialized with host: ${this.config.host}`);
-        console.log(`[JIRA] User: ${this.config.user}`);
-        console.log(`[JIRA] Token: ${'*'.repeat(Math.min(this.config.token.length, 10))}`);
+    getInstance(): string {
+        return this.config.instance;
+    }
+
+    getSettings(): JiraSettings {
+        return this.settings;
+    }
+
+    getProjectSettings(projectKey: string = this.settings.defaultProject): JiraProjectSettings {
+        const projectSettings = Object.hasOwn(this.settings.projects, projectKey) ? this.settings.projects[projectKey] : undefined;
+        if (!projectSettings) {
+            throw new Error(`JIRA project ${projectKey} is not configured in config/jira.json`);
+        }
+        return projectSettings;
+    }
+
+    getRelationship(): JiraSettings['relationship'] {
+        return this.settings.relationship;
+    }
+
+    // Sub-task relationship creates every task with the sub-task issue type
+    getIssueTypeId(projectKey: string = this.settings.defaultProject): string {
+        const { relationship } = this.settings;
+        return relationship.type === 'subtask' ? relationship.issueTypeId : this.getProjectSettings(projectKey).issueType.id;
+    }
+
+    getBrowseUrl(issueKey: string): string {
+        return `${this.config.host}/browse/${issueKey}`;
+    }
+
+    getDecompositionText(task: JiraTask): string {
+        return this.fromRichText(task.fields[this.settings.parentFields.decomposition]) || '';
+    }
+
+    getMockupsText(task: JiraTask): string {
+        return this.fromRichText(task.fields[this.settings.parentFields.mockups]) || '';
     }
 
-    private getAuthHeader(): string {
-        const credentials = Buffer.from(`${this.config.user}:${this.config.token}`).toString('base64');
-        return `Basic ${credentials}`;
+    private get apiBase(): string {
+        return `/rest/api/${this.settings.apiVersion}`;
     }
 
-    private async makeRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
+    // REST v3 takes and returns rich text fields (description, comments, textarea custom fields) as ADF
+    private toRichText(text: string): string | AdfDocument {
+        return this.settings.apiVersion === '3' ? wikiToAdf(text) : text;
+    }
+
+    private fromRichText(value: unknown): string | null {
+        if (typeof value === 'string') {
+            return value;
+        }
+        return isAdfDocument(value) ? adfToWiki(value) : null;
+    }
+
+    private logInit() {
+        console.log(`[JIRA] Initialized ${this.config.instance} instance with host: ${this.config.host}`);
+        console.log(`[JIRA] Auth: ${this.auth.describe()}`);
+        console.log(`[JIRA] REST API v${this.settings.apiVersion}`);
+        console.log(`[JIRA] Projects: ${Object.keys(this.settings.projects).join(', ')} (default: ${this.settings.defaultProject})`);
+        console.log(`[JIRA] Requests: up to ${this.settings.requests.maxConcurrency} in parallel, ${this.settings.requests.maxRetries} retries`);
+    }
+
+    private async makeRequest(
+        endpoint: string,
+        options: RequestInit = {},
+        policy: Partial<JiraSettings['requests']> = {}
+    ): Promise<Response> {
         const url = `${this.config.host}${endpoint}`;
         const method = options.method || 'GET';
+        const { maxRetries, baseDelayMs, maxDelayMs, timeoutMs } = { ...this.settings.requests, ...policy };
 
         console.log(`[JIRA] ${method} ${url}`);
         if (options.body) {
             console.log(`[JIRA] Request body:`, JSON.parse(options.body as string));
         }
 
-        const response = await fetch(url, {
-            ...options,
-            headers: {
-                'Authorization': this.getAuthHeader(),
-                'Content-Type': 'application/json',
-                'Accept': 'application/json',
-                ...options.headers,
-            },
-        });
+        for (let attempt = 0; ; attempt++) {
+            let response: Response;
+            try {
+                // Signed auth (OAuth 1.0a) needs a fresh nonce and timestamp on every attempt
+                const authorization = await this.auth.getAuthorization(method, url);
+                response = await this.limiter.run(() => fetch(url, {
+                    ...options,
+                    signal: AbortSignal.timeout(timeoutMs),
+                    headers: {
+                        'Authorization': authorization,
+                        'Content-Type': 'application/json',
+                        'Accept': 'application/json',
+                        ...options.headers,
+                    },
+                }));
+            } catch (error: any) {
+                const reason = error.name === 'TimeoutError' ? `no response in ${timeoutMs} ms` : error.message;
+                // Jira may have processed the request before the connection dropped, so POST is not repeated
+                if (attempt < maxRetries && isIdempotentMethod(method)) {
+                    await this.waitBeforeRetry(method, url, reason, attempt, getBackoffDelay(attempt, baseDelayMs, maxDelayMs));
+                    continue;
+                }
+                console.error(`[JIRA] ${method} ${url} failed: ${reason}`);
+                throw new Error(`JIRA request failed (${method} ${endpoint}): ${reason}`);
+            }
 
-        console.log(`[JIRA] Response: ${response.status} ${response.statusText}`);
+            console.log(`[JIRA] Response: ${response.status} ${response.statusText}`);
+
+            if (response.ok) {
+                return response;
+            }
 
-        if (!response.ok) {
             const errorText = await response.text();
+            const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+            if (attempt < maxRetries && isRetryableStatus(response.status, method, retryAfter !== null)) {
+                // Waiting longer would keep the user's request hanging, better to fail with a clear error
+                if (retryAfter === null || retryAfter <= maxDelayMs) {
+                    const delay = retryAfter ?? getBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+                    await this.waitBeforeRetry(method, url, `${response.status}`, attempt, delay);
+                    continue;
+                }
+                console.warn(`[JIRA] Retry-After ${Math.round(retryAfter / 1000)} s exceeds ${maxDelayMs} ms, giving up`);
+            }
+
             console.error(`[JIRA] Error response:`, errorText);
             throw new Error(`JIRA API error (${response.status}): ${errorText}`);
         }
+    }
+
+    private async waitBeforeRetry(method: string, url: string, reason: string, attempt: number, delay: number): Promise<void> {
+        console.warn(`[JIRA] ${method} ${url} failed (${reason}), retry ${attempt + 1}/${this.settings.requests.maxRetries} in ${Math.round(delay)} ms`);
+        recordRetry();
+        await sleep(delay);
+    }
+
+    /**
+     * Checks the credentials with a "who am I" request. The result is cached for /api/config.
+     */
+    async verifyConnection(): Promise<JiraConnectionStatus> {
+        try {
+            const response = await this.makeRequest(`${this.apiBase}/myself`);
+            const myself = await response.json() as JiraMyselfResponse;
+            this.connectionStatus = {
+                ok: true,
+                authType: this.auth.type,
+                user: {
+                    name: myself.name || myself.accountId || '',
+                    displayName: myself.displayName,
+                    email: myself.emailAddress,
+                },
+                checkedAt: new Date().toISOString(),
+            };
+            console.log(`[JIRA] Authenticated as ${myself.displayName} (${this.auth.type})`);
+        } catch (error: any) {
+            this.connectionStatus = {
+                ok: false,
+                authType: this.auth.type,
+                error: error.message,
+                checkedAt: new Date().toISOString(),
+            };
+            console.error(`[JIRA] Authentication check failed (${this.auth.type}):`, error.message);
+        }
+        return this.connectionStatus;
+    }
 
-        return response;
+    async getConnectionStatus(): Promise<JiraConnectionStatus> {
+        return this.connectionStatus || this.verifyConnection();
     }
 
     async getIssue(issueKey: string): Promise<JiraTask> {
@@ -109,55 +348,313 @@ export class JiraService {
         const fields = [
             'summary',
             'description',
-            'customfield_36836', // Декомпозиция
-            'customfield_24213', // Ссылки на макеты
+            this.settings.parentFields.decomposition,
+            this.settings.parentFields.mockups,
             'status',
             'assignee',
             'priority'
         ].join(',');
 
-        const response = await this.makeRequest(`/rest/api/2/issue/${issueKey}?fields=${fields}&expand=renderedFields`);
+        const response = await this.makeRequest(`${this.apiBase}/issue/${issueKey}?fields=${fields}&expand=renderedFields`);
         const data = await response.json() as JiraTask;
 
+        // Keep the rest of the pipeline on wiki markup regardless of the API version
+        if (this.settings.apiVersion === '3') {
+            ['description', this.settings.parentFields.decomposition, this.settings.parentFields.mockups].forEach((field) => {
+                if (data.fields[field] !== undefined) {
+                    data.fields[field] = this.fromRichText(data.fields[field]);
+                }
+            });
+        }
+
         console.log(`[JIRA] Successfully fetched issue ${issueKey}: ${data.fields?.summary || 'No summary'}`);
         return data as JiraTask;
     }
 
-    async createIssue(taskData: {
-        summary: string;
-        description: string;
-        estimation?: string; // customfield_23911
-        storyPoints?: number; // customfield_11212
-    }): Promise<CreateIssueResponse> {
-        console.log(`[JIRA] Creating single issue: ${taskData.summary}`);
-
-        const payload: any = {
-            fields: {
-                project: { key: 'HH' },
-                issuetype: { id: '3' }, // Task type
-                summary: taskData.summary,
-                description: taskData.description,
+    /**
+     * Reads allowed values of the T-shirt field from the create screen of the project's issue type
+     * and maps option labels (XS, S, S+, M...) to their IDs. When createmeta is unavailable, falls back to
+     * fields.estimationOptions from config/jira.json and keeps a warning for getEstimationWarning.
+     * quick: a single attempt with a short timeout, for requests that must not keep the page waiting.
+     */
+    async getEstimationOptions(
+        projectKey: string = this.settings.defaultProject,
+        { quick = false }: { quick?: boolean } = {}
+    ): Promise<Record<string, string>> {
+        const cached = this.estimationOptionsCache.get(projectKey);
+        if (cached && Date.now() - cached.fetchedAt < (cached.warning ? ESTIMATION_FALLBACK_TTL : ESTIMATION_OPTIONS_TTL)) {
+            return cached.options;
+        }
+
+        const projectSettings = this.getProjectSettings(projectKey);
+        const fieldId = projectSettings.fields.estimation;
+        let options: Record<string, string>;
+        try {
+            options = await this.discoverEstimationOptions(projectKey, quick);
+        } catch (error: any) {
+            const configured = projectSettings.fields.estimationOptions;
+            if (!configured || Object.keys(configured).length === 0) {
+                throw new Error(`${error.message}. Варианты поля можно задать в projects.${projectKey}.fields.estimationOptions`);
+            }
+            const warning = `Варианты поля ${fieldId} проекта ${projectKey} взяты из config/jira.json: ${error.message}`;
+            console.warn(`[JIRA] ${warning}`);
+            options = Object.fromEntries(Object.entries(configured).map(([label, id]) => [label.trim().toUpperCase(), id]));
+            this.estimationOptionsCache.set(projectKey, { options, fetchedAt: Date.now(), warning });
+            return options;
+        }
+
+        console.log(`[JIRA] Estimation options of ${projectKey}:`, options);
+        this.estimationOptionsCache.set(projectKey, { options, fetchedAt: Date.now() });
+        return options;
+    }
+
+    /**
+     * Set when the options of the project come from config/jira.json instead of createmeta.
+     */
+    getEstimationWarning(projectKey: string = this.settings.defaultProject): string | undefined {
+        return this.estimationOptionsCache.get(projectKey)?.warning;
+    }
+
+    private async discoverEstimationOptions(projectKey: string, quick: boolean): Promise<Record<string, string>> {
+        const fieldId = this.getProjectSettings(projectKey).fields.estimation;
+        console.log(`[JIRA] Discovering options of ${fieldId} in ${projectKey}`);
+
+        const response = await this.makeRequest(
+            `${this.apiBase}/issue/createmeta/${projectKey}/issuetypes/${this.getIssueTypeId(projectKey)}?maxResults=200`,
+            {},
+            quick ? QUICK_REQUEST_POLICY : {}
+        );
+        const data = await response.json() as CreateMetaFieldsResponse;
+        const field = (data.values || data.fields || []).find((metaField) => metaField.fieldId === fieldId);
+
+        if (!field) {
+            throw new Error(`Поле ${fieldId} отсутствует на экране создания задачи типа ${this.getIssueTypeId(projectKey)} в проекте ${projectKey}`);
+        }
+        if (!field.allowedValues?.length) {
+            throw new Error(`У поля ${fieldId} (${field.name}) в проекте ${projectKey} нет допустимых значений`);
+        }
+
+        const options: Record<string, string> = {};
+        for (const allowedValue of field.allowedValues) {
+            const label = (allowedValue.value || allowedValue.name || '').trim().toUpperCase();
+            if (label) {
+                options[label] = allowedValue.id;
             }
+        }
+        return options;
+    }
+
+    /**
+     * Users who can be assigned issues of the project, for assignee autocomplete.
+     */
+    async searchAssignableUsers(projectKey: string, query: string): Promise<JiraUser[]> {
+        // Jira Cloud searches by "query" and identifies users by accountId, Server/Data Center by "username" and name
+        const queryParam = this.settings.apiVersion === '3' ? 'query' : 'username';
+        const response = await this.makeRequest(
+            `${this.apiBase}/user/assignable/search?project=${encodeURIComponent(projectKey)}&${queryParam}=${encodeURIComponent(query)}&maxResults=20`
+        );
+        const users = await response.json() as JiraMyselfResponse[];
+
+        return users.map((user) => ({
+            id: user.accountId || user.name || '',
+            displayName: user.displayName,
+            email: user.emailAddress,
+        })).filter((user) => user.id);
+    }
+
+    /**
+     * Versions of the project matching the query, unreleased first; archived versions can't be set as fix version.
+     */
+    async searchVersions(projectKey: string, query: string = ''): Promise<JiraVersion[]> {
+        const response = await this.makeRequest(`${this.apiBase}/project/${encodeURIComponent(projectKey)}/versions`);
+        const versions = await response.json() as JiraProjectVersion[];
+        const normalizedQuery = query.trim().toLowerCase();
+
+        return versions
+            .filter((version) => !version.archived && version.name.toLowerCase().includes(normalizedQuery))
+            .map((version) => ({
+                id: version.id,
+                name: version.name,
+                released: !!version.released,
+                releaseDate: version.releaseDate,
+            }))
+            .sort((a, b) => Number(a.released) - Number(b.released));
+    }
+
+    /**
+     * Scrum boards of the project: kanban boards have no sprints.
+     */
+    async getBoards(projectKey: string): Promise<JiraBoard[]> {
+        const response = await this.makeRequest(
+            `${AGILE_BASE}/board?projectKeyOrId=${encodeURIComponent(projectKey)}&type=scrum&maxResults=50`
+        );
+        const data = await response.json() as AgilePage<JiraBoard>;
+        return data.values.map((board) => ({ id: board.id, name: board.name }));
+    }
+
+    /**
+     * Active and future sprints of the board, active first.
+     */
+    async getSprints(boardId: number): Promise<JiraSprint[]> {
+        const response = await this.makeRequest(`${AGILE_BASE}/board/${boardId}/sprint?state=active,future&maxResults=50`);
+        const data = await response.json() as AgilePage<AgileSprint>;
+        return data.values
+            .filter((sprint): sprint is AgileSprint & { state: JiraSprint['state'] } => sprint.state !== 'closed')
+            .map((sprint) => ({
+                id: sprint.id,
+                name: sprint.name,
+                state: sprint.state,
+                boardId,
+                startDate: sprint.startDate,
+                endDate: sprint.endDate,
+            }))
+            .sort((a, b) => Number(a.state === 'future') - Number(b.state === 'future'));
+    }
+
+    async moveIssuesToSprint(sprintId: number, issueKeys: string[]): Promise<void> {
+        for (let offset = 0; offset < issueKeys.length; offset += AGILE_MOVE_LIMIT) {
+            const issues = issueKeys.slice(offset, offset + AGILE_MOVE_LIMIT);
+            console.log(`[JIRA] Moving ${issues.join(', ')} to sprint ${sprintId}`);
+            await this.makeRequest(`${AGILE_BASE}/sprint/${sprintId}/issue`, {
+                method: 'POST',
+                body: JSON.stringify({ issues }),
+            });
+        }
+    }
+
+    async moveIssuesToBacklog(issueKeys: string[]): Promise<void> {
+        for (let offset = 0; offset < issueKeys.length; offset += AGILE_MOVE_LIMIT) {
+            const issues = issueKeys.slice(offset, offset + AGILE_MOVE_LIMIT);
+            console.log(`[JIRA] Moving ${issues.join(', ')} to backlog`);
+            await this.makeRequest(`${AGILE_BASE}/backlog/issue`, {
+                method: 'POST',
+                body: JSON.stringify({ issues }),
+            });
+        }
+    }
+
+    /**
+     * Returns a human-readable error for every task whose estimation has no option in the project's T-shirt field.
+     */
+    async findUnknownEstimations(tasks: Array<TaskForCreation>, projectKey: string = this.settings.defaultProject): Promise<string[]> {
+        const options = await this.getEstimationOptions(projectKey);
+
+        return tasks
+            .map((task) => this.describeUnknownEstimation(task, projectKey, options))
+            .filter((error): error is string => error !== null);
+    }
+
+    describeUnknownEstimation(task: TaskForCreation, projectKey: string, estimationOptions: Record<string, string>): string | null {
+        if (!task.estimation || task.estimation === UNKNOWN_ESTIMATION || estimationOptions[task.estimation.toUpperCase()]) {
+            return null;
+        }
+        const fieldId = this.getProjectSettings(projectKey).fields.estimation;
+        return `Оценка «${task.estimation}» задачи "${task.summary}" отсутствует в поле ${fieldId} проекта ${projectKey}. Допустимые значения: ${Object.keys(estimationOptions).join(', ')}`;
+    }
+
+    buildIssueFields(taskData: TaskForCreation, projectKey: string, estimationOptions: Record<string, string>): Record<string, any> {
+        const projectSettings = this.getProjectSettings(projectKey);
+        const fields: Record<string, any> = {
+            project: { key: projectKey },
+            issuetype: { id: this.getIssueTypeId(projectKey) },
+            summary: taskData.summary,
+            description: this.toRichText(taskData.description),
         };
 
+        const { relationship } = this.settings;
+        if (taskData.parentKey && relationship.type === 'subtask') {
+            fields.parent = { key: taskData.parentKey };
+        } else if (taskData.parentKey && relationship.type === 'field') {
+            // The system parent field takes an issue reference, Epic Link takes the plain key
+            fields[relationship.field] = relationship.field === 'parent' ? { key: taskData.parentKey } : taskData.parentKey;
+        }
+
         // Add custom fields if provided
-        if (taskData.estimation) {
-            const estimationId = this.estimationMapping[taskData.estimation];
-            if (estimationId) {
-                payload.fields.customfield_23911 = { id: estimationId };
-                console.log(`[JIRA] Adding estimation: ${taskData.estimation} (ID: ${estimationId})`);
-            } else {
-                console.warn(`[JIRA] Unknown estimation value: ${taskData.estimation}`);
+        if (taskData.estimation && taskData.estimation !== UNKNOWN_ESTIMATION) {
+            const estimationId = estimationOptions[taskData.estimation.toUpperCase()];
+            if (!estimationId) {
+                throw new Error(`Оценка «${taskData.estimation}» отсутствует в поле ${projectSettings.fields.estimation} проекта ${projectKey}`);
             }
+            fields[projectSettings.fields.estimation] = { id: estimationId };
         }
         if (taskData.storyPoints !== undefined) {
-            payload.fields.customfield_11212 = taskData.storyPoints;
-            console.log(`[JIRA] Adding story points: ${taskData.storyPoints}`);
+            fields[projectSettings.fields.storyPoints] = taskData.storyPoints;
+        }
+
+        const { epic } = this.settings;
+        if (taskData.epicKey && epic) {
+            // Like the parent field relationship: "parent" takes an issue reference, Epic Link the plain key
+            fields[epic.linkField] = epic.linkField === 'parent' ? { key: taskData.epicKey } : taskData.epicKey;
+        }
+
+        if (taskData.dueDate) {
+            fields.duedate = taskData.dueDate;
+        }
+        if (taskData.startDate && projectSettings.fields.startDate) {
+            fields[projectSettings.fields.startDate] = taskData.startDate;
+        }
+
+        if (taskData.assignee) {
+            fields.assignee = this.settings.apiVersion === '3' ? { accountId: taskData.assignee } : { name: taskData.assignee };
+        }
+        if (taskData.components?.length) {
+            fields.components = taskData.components.map((name) => ({ name }));
+        }
+        if (taskData.labels?.length) {
+            fields.labels = taskData.labels;
+        }
+        if (taskData.fixVersion) {
+            fields.fixVersions = [{ name: taskData.fixVersion }];
+        }
+
+        return fields;
+    }
+
+    /**
+     * Fields of an Epic that repeats the parent issue: same summary (also used as Epic Name) and description.
+     */
+    buildEpicFields(parentTask: JiraTask, projectKey: string): Record<string, any> {
+        const { epic } = this.settings;
+        if (!epic) {
+            throw new Error('Эпик не настроен: добавьте секцию epic в config/jira.json');
+        }
+
+        const fields: Record<string, any> = {
+            project: { key: projectKey },
+            issuetype: { id: epic.issueTypeId },
+            summary: parentTask.fields.summary,
+            description: this.toRichText(parentTask.fields.description || ''),
+        };
+        if (epic.nameField) {
+            fields[epic.nameField] = parentTask.fields.summary;
         }
+        return fields;
+    }
+
+    async createEpic(parentTask: JiraTask, projectKey: string): Promise<CreateIssueResponse> {
+        console.log(`[JIRA] Creating epic for ${parentTask.key} in ${projectKey}`);
+
+        const response = await this.makeRequest(`${this.apiBase}/issue`, {
+            method: 'POST',
+            body: JSON.stringify({ fields: this.buildEpicFields(parentTask, projectKey) }),
+        });
+
+        const result = await response.json() as CreateIssueResponse;
+        console.log(`[JIRA] Successfully created epic: ${result.key}`);
+        return result;
+    }
+
+    async createIssue(taskData: TaskForCreation, projectKey: string = this.settings.defaultProject): Promise<CreateIssueResponse> {
+        console.log(`[JIRA] Creating single issue in ${projectKey}: ${taskData.summary}`);
+
+        const estimationOptions = await this.getEstimationOptions(projectKey);
+        const payload = {
+            fields: this.buildIssueFields(taskData, projectKey, estimationOptions),
+        };
 
         console.log(`[JIRA] Payload:`, payload);
 
-        const response = await this.makeRequest('/rest/api/2/issue', {
+        const response = await this.makeRequest(`${this.apiBase}/issue`, {
             method: 'POST',
             body: JSON.stringify(payload),
         });
@@ -167,74 +664,111 @@ export class JiraService {
         return result;
     }
 
-    async createBulkIssues(tasks: Array<TaskForCreation>): Promise<CreateBulkIssuesResponse> {
-        console.log(`[JIRA] Creating ${tasks.length} issues in bulk`);
+    /**
+     * Creates issues via /rest/api/{version}/issue/bulk in chunks of requests.bulkChunkSize.
+     * Results are aligned with tasks: a failed chunk or element fails only its own tasks.
+     */
+    async createBulkIssues(
+        tasks: Array<TaskForCreation>,
+        projectKey: string = this.settings.defaultProject,
+        onChunk?: (progress: BulkChunkProgress) => void
+    ): Promise<BulkIssueResult[]> {
+        console.log(`[JIRA] Creating ${tasks.length} issues in bulk in ${projectKey}`);
         tasks.forEach((task, i) => {
             console.log(`[JIRA] Task ${i + 1}: ${task.summary} (${task.estimation || 'no estimation'}, ${task.storyPoints || 'no SP'} SP)`);
         });
 
-        const issueUpdates = tasks.map((taskData) => {
-            const fields: any = {
-                project: { key: 'HH' },
-                issuetype: { id: '3' }, // Task type
-                summary: taskData.summary,
-                description: taskData.description,
-            };
-
-            // Add custom fields if provided
-            if (taskData.estimation) {
-                const estimationId = this.estimationMapping[taskData.estimation];
-                if (estimationId) {
-                    fields.customfield_23911 = { id: estimationId };
-                } else {
-                    console.warn(`[JIRA] Unknown estimation value: ${taskData.estimation}`);
-                }
-            }
-            if (taskData.storyPoints !== undefined) {
-                fields.customfield_11212 = taskData.storyPoints;
-            }
+        const estimationOptions = await this.getEstimationOptions(projectKey);
+        const chunkSize = this.settings.requests.bulkChunkSize;
+        const chunks = Math.ceil(tasks.length / chunkSize);
+        const results: BulkIssueResult[] = [];
 
-            return {
-                update: {},
-                fields
-            };
-        });
+        for (let chunk = 0; chunk < chunks; chunk++) {
+            const offset = chunk * chunkSize;
+            const chunkResults = await this.createIssueChunk(tasks.slice(offset, offset + chunkSize), projectKey, estimationOptions);
+            results.push(...chunkResults);
 
-        const payload = { issueUpdates };
+            const failed = chunkResults.filter((result) => result.error).length;
+            console.log(`[JIRA] Chunk ${chunk + 1}/${chunks}: ${chunkResults.length - failed} created, ${failed} failed`);
+            onChunk?.({ chunk: chunk + 1, chunks, offset, results: chunkResults });
+        }
 
-        console.log(`[JIRA] Bulk payload:`, payload);
+        return results;
+    }
 
-        const response = await this.makeRequest('/rest/api/2/issue/bulk', {
-            method: 'POST',
-            body: JSON.stringify(payload),
-        });
+    private async createIssueChunk(
+        tasks: Array<TaskForCreation>,
+        projectKey: string,
+        estimationOptions: Record<string, string>
+    ): Promise<BulkIssueResult[]> {
+        const payload = {
+            issueUpdates: tasks.map((taskData) => ({
+                update: {},
+                fields: this.buildIssueFields(taskData, projectKey, estimationOptions),
+            })),
+        };
 
-        const result: CreateBulkIssuesResponse = await response.json() as CreateBulkIssuesResponse;
+        console.log(`[JIRA] Bulk payload:`, payload);
 
-        if (result.issues) {
-            console.log(`[JIRA] Successfully created ${result.issues.length} issues`);
-            result.issues.forEach((issue: any) => {
-                console.log(`[JIRA] Created: ${issue.key}`);
+        let result: CreateBulkIssuesResponse;
+        try {
+            const response = await this.makeRequest(`${this.apiBase}/issue/bulk`, {
+                method: 'POST',
+                body: JSON.stringify(payload),
             });
+            result = await response.json() as CreateBulkIssuesResponse;
+        } catch (error: any) {
+            console.error(`[JIRA] Bulk chunk of ${tasks.length} issues failed:`, error.message);
+            return tasks.map(() => ({ error: error.message }));
         }
 
-        if (result.errors && result.errors.length > 0) {
+        // failedElementNumber is an index within this chunk's request
+        const results: BulkIssueResult[] = tasks.map(() => ({}));
+        (result.errors || []).forEach((error) => {
+            results[error.failedElementNumber] = { error: JSON.stringify(error.elementErrors) };
+        });
+        if (result.errors?.length) {
             console.error(`[JIRA] ${result.errors.length} errors during bulk creation:`, result.errors);
         }
 
-        return result;
-    }
+        // Jira returns created issues in request order, skipping the failed ones
+        const succeededIndexes = results.map((_, index) => index).filter((index) => !results[index].error);
+        (result.issues || []).forEach((issue, index) => {
+            console.log(`[JIRA] Created: ${issue.key}`);
+            results[succeededIndexes[index]] = { issue };
+        });
 
-    async linkIssues(parentKey: string, childKey: string): Promise<void> {
-        console.log(`[JIRA] Linking issues: ${parentKey} -> ${childKey}`);
+        return results.map((item) => (item.issue || item.error) ? item : { error: 'JIRA не вернула созданную задачу' });
+    }
 
-        const payload = {
-            type: { name: 'Inclusion' },
+    buildLinkPayload(parentKey: string, childKey: string): Record<string, any> | null {
+        const { relationship } = this.settings;
+        if (relationship.type !== 'link') {
+            return null;
+        }
+        return {
+            type: { name: relationship.linkType },
             inwardIssue: { key: parentKey },
             outwardIssue: { key: childKey },
         };
+    }
+
+    /**
+     * Sub-task and field relationships are set when the issue is created, only issue links need a separate request.
+     */
+    needsLinking(): boolean {
+        return this.settings.relationship.type === 'link';
+    }
+
+    async linkIssues(parentKey: string, childKey: string): Promise<void> {
+        const payload = this.buildLinkPayload(parentKey, childKey);
+        if (!payload) {
+            return;
+        }
+
+        console.log(`[JIRA] Linking issues: ${parentKey} -> ${childKey}`);
 
-        await this.makeRequest('/rest/api/2/issueLink', {
+        await this.makeRequest(`${this.apiBase}/issueLink`, {
             method: 'POST',
             body: JSON.stringify(payload),
         });
@@ -242,19 +776,286 @@ export class JiraService {
         console.log(`[JIRA] Successfully linked ${parentKey} -> ${childKey}`);
     }
 
-    static extractKeyFromUrl(input: string): string {
+    buildEpicLinkPayload(parentKey: string, epicKey: string): Record<string, any> {
+        return {
+            type: { name: this.settings.epic?.parentLinkType || 'Inclusion' },
+            inwardIssue: { key: parentKey },
+            outwardIssue: { key: epicKey },
+        };
+    }
+
+    async linkEpic(parentKey: string, epicKey: string): Promise<void> {
+        console.log(`[JIRA] Linking epic: ${parentKey} -> ${epicKey}`);
+
+        await this.makeRequest(`${this.apiBase}/issueLink`, {
+            method: 'POST',
+            body: JSON.stringify(this.buildEpicLinkPayload(parentKey, epicKey)),
+        });
+
+        console.log(`[JIRA] Successfully linked ${parentKey} -> ${epicKey}`);
+    }
+
+    /**
+     * "blockerKey blocks blockedKey" with the dependencyLinkType from config/jira.json.
+     */
+    buildDependencyLinkPayload(blockerKey: string, blockedKey: string): Record<string, any> {
+        return {
+            type: { name: this.settings.dependencyLinkType },
+            inwardIssue: { key: blockerKey },
+            outwardIssue: { key: blockedKey },
+        };
+    }
+
+    async linkDependency(blockerKey: string, blockedKey: string): Promise<void> {
+        console.log(`[JIRA] Linking dependency: ${blockerKey} blocks ${blockedKey}`);
+
+        await this.makeRequest(`${this.apiBase}/issueLink`, {
+            method: 'POST',
+            body: JSON.stringify(this.buildDependencyLinkPayload(blockerKey, blockedKey)),
+        });
+
+        console.log(`[JIRA] Successfully linked ${blockerKey} -> ${blockedKey}`);
+    }
+
+    // The URL is the global ID, so attaching the same mockup again updates the existing link
+    buildRemoteLinkPayload(link: MockupLink): Record<string, any> {
+        return {
+            globalId: link.url,
+            object: { url: link.url, title: link.title },
+        };
+    }
+
+    async addRemoteLink(issueKey: string, link: MockupLink): Promise<void> {
+        console.log(`[JIRA] Adding remote link to ${issueKey}: ${link.url}`);
+
+        await this.makeRequest(`${this.apiBase}/issue/${issueKey}/remotelink`, {
+            method: 'POST',
+            body: JSON.stringify(this.buildRemoteLinkPayload(link)),
+        });
+    }
+
+    async updateIssue(issueKey: string, fields: Record<string, any>): Promise<void> {
+        console.log(`[JIRA] Updating ${issueKey}: ${Object.keys(fields).join(', ')}`);
+
+        await this.makeRequest(`${this.apiBase}/issue/${issueKey}`, {
+            method: 'PUT',
+            body: JSON.stringify({ fields }),
+        });
+
+        console.log(`[JIRA] Successfully updated ${issueKey}`);
+    }
+
+    /**
+     * Writes the decomposition with appended lines. On REST v3 the stored ADF document is patched with the changes:
+     * converting the whole text back to ADF would lose markup the wiki converter doesn't know.
+     */
+    async updateDecompositionText(issueKey: string, text: string, changes: Array<{ before: string; after: string }>): Promise<void> {
+        const field = this.settings.parentFields.decomposition;
+        if (this.settings.apiVersion !== '3') {
+            await this.updateIssue(issueKey, { [field]: text });
+            return;
+        }
+
+        const response = await this.makeRequest(`${this.apiBase}/issue/${issueKey}?fields=${field}`);
+        const data = await response.json() as { fields: Record<string, unknown> };
+        const document = data.fields[field];
+        await this.updateIssue(issueKey, {
+            [field]: isAdfDocument(document) ? appendToAdfLines(document, changes) : wikiToAdf(text),
+        });
+    }
+
+    async updateParentEstimation(issueKey: string, storyPoints: number, tShirt: string | null): Promise<void> {
+        const { parentFields } = this.settings;
+        const fields: Record<string, any> = { [parentFields.storyPoints]: storyPoints };
+        if (tShirt) {
+            fields[parentFields.estimation] = await this.getParentEstimationValue(issueKey, tShirt);
+        }
+        await this.updateIssue(issueKey, fields);
+    }
+
+    /**
+     * The T-shirt field is a select: it takes the ID of an option from the edit screen of the parent issue.
+     */
+    private async getParentEstimationValue(issueKey: string, tShirt: string): Promise<{ id: string } | { value: string }> {
+        const fieldId = this.settings.parentFields.estimation;
+        const response = await this.makeRequest(`${this.apiBase}/issue/${issueKey}/editmeta`);
+        const data = await response.json() as { fields?: Record<string, Omit<CreateMetaField, 'fieldId'>> };
+        const allowedValues = data.fields?.[fieldId]?.allowedValues;
+        if (!allowedValues?.length) {
+            return { value: tShirt };
+        }
+
+        const option = allowedValues.find((allowedValue) =>
+            (allowedValue.value || allowedValue.name || '').trim().toUpperCase() === tShirt.toUpperCase()
+        );
+        if (!option) {
+            const labels = allowedValues.map((allowedValue) => allowedValue.value || allowedValue.name).join(', ');
+            throw new Error(`Майки «${tShirt}» нет среди вариантов поля ${fieldId} задачи ${issueKey}. Допустимые значения: ${labels}`);
+        }
+        return { id: option.id };
+    }
+
+    async addComment(issueKey: string, body: string): Promise<void> {
+        console.log(`[JIRA] Adding comment to ${issueKey}`);
+
+        await this.makeRequest(`${this.apiBase}/issue/${issueKey}/comment`, {
+            method: 'POST',
+            body: JSON.stringify({ body: this.toRichText(body) }),
+        });
+    }
+
+    /**
+     * Returns issues already related to the parent, i.e. created by previous runs.
+     */
+    async getLinkedIssues(parentKey: string): Promise<LinkedIssue[]> {
+        const { relationship } = this.settings;
+        let linkedIssues: LinkedIssue[];
+
+        if (relationship.type === 'link') {
+            console.log(`[JIRA] Fetching ${relationship.linkType} links of ${parentKey}`);
+            const response = await this.makeRequest(`${this.apiBase}/issue/${parentKey}?fields=issuelinks`);
+            const data = await response.json() as { fields: { issuelinks?: JiraIssueLink[] } };
+
+            linkedIssues = (data.fields.issuelinks || [])
+                .filter((link) => link.type.name === relationship.linkType && link.outwardIssue)
+                .map((link) => ({
+                    linkId: link.id,
+                    id: link.outwardIssue!.id,
+                    key: link.outwardIssue!.key,
+                    summary: link.outwardIssue!.fields.summary,
+                }));
+        } else if (relationship.type === 'subtask') {
+            console.log(`[JIRA] Fetching sub-tasks of ${parentKey}`);
+            const response = await this.makeRequest(`${this.apiBase}/issue/${parentKey}?fields=subtasks`);
+            const data = await response.json() as { fields: { subtasks?: Array<{ id: string; key: string; fields: { summary: string } }> } };
+
+            linkedIssues = (data.fields.subtasks || []).map((subtask) => ({
+                id: subtask.id,
+                key: subtask.key,
+                summary: subtask.fields.summary,
+            }));
+        } else {
+            // customfield_12345 is addressed as cf[12345] in JQL
+            const fieldMatch = relationship.field.match(/^customfield_(\d+)$/);
+            const jqlField = fieldMatch ? `cf[${fieldMatch[1]}]` : relationship.field;
+            console.log(`[JIRA] Searching issues with ${jqlField} = ${parentKey}`);
+
+            const jql = encodeURIComponent(`${jqlField} = ${parentKey}`);
+            // Jira Cloud has removed /rest/api/3/search in favour of /search/jql
+            const searchPath = this.settings.apiVersion === '3' ? 'search/jql' : 'search';
+            const response = await this.makeRequest(`${this.apiBase}/${searchPath}?jql=${jql}&fields=summary&maxResults=500`);
+            const data = await response.json() as { issues: Array<{ id: string; key: string; fields: { summary: string } }> };
+
+            linkedIssues = data.issues.map((issue) => ({ id: issue.id, key: issue.key, summary: issue.fields.summary }));
+        }
+
+        console.log(`[JIRA] ${parentKey} already includes ${linkedIssues.length} issues`);
+        return linkedIssues;
+    }
+
+    async deleteIssue(issueKey: string): Promise<void> {
+        console.log(`[JIRA] Deleting issue: ${issueKey}`);
+
+        await this.makeRequest(`${this.apiBase}/issue/${issueKey}?deleteSubtasks=true`, {
+            method: 'DELETE',
+        });
+
+        console.log(`[JIRA] Successfully deleted ${issueKey}`);
+    }
+
+    async transitionIssue(issueKey: string, statusName: string): Promise<void> {
+        console.log(`[JIRA] Transitioning ${issueKey} to ${statusName}`);
+
+        const response = await this.makeRequest(`${this.apiBase}/issue/${issueKey}/transitions`);
+        const data = await response.json() as { transitions: Array<{ id: string; name: string; to: { name: string } }> };
+
+        const target = statusName.toLowerCase();
+        const transition = data.transitions.find((candidate) =>
+            candidate.to.name.toLowerCase() === target || candidate.name.toLowerCase() === target
+        );
+        if (!transition) {
+            const available = data.transitions.map((candidate) => candidate.to.name).join(', ');
+            throw new Error(`Из текущего статуса ${issueKey} нет перехода в «${statusName}» (доступны: ${available || 'нет'})`);
+        }
+
+        await this.makeRequest(`${this.apiBase}/issue/${issueKey}/transitions`, {
+            method: 'POST',
+            body: JSON.stringify({ transition: { id: transition.id } }),
+        });
+
+        console.log(`[JIRA] Successfully transitioned ${issueKey} to ${transition.to.name}`);
+    }
+
+    async unlinkIssues(parentKey: string, childKey: string): Promise<void> {
+        const { relationship } = this.settings;
+
+        if (relationship.type === 'subtask') {
+            // A sub-task cannot exist without its parent
+            console.log(`[JIRA] ${childKey} is a sub-task of ${parentKey}, it stays under the parent`);
+            return;
+        }
+
+        if (relationship.type === 'field') {
+            await this.updateIssue(childKey, { [relationship.field]: null });
+            console.log(`[JIRA] Successfully cleared ${relationship.field} of ${childKey}`);
+            return;
+        }
+
+        const link = (await this.getLinkedIssues(parentKey)).find((issue) => issue.key === childKey);
+        if (!link?.linkId) {
+            console.log(`[JIRA] ${childKey} is not linked to ${parentKey}, nothing to unlink`);
+            return;
+        }
+
+        await this.makeRequest(`${this.apiBase}/issueLink/${link.linkId}`, {
+            method: 'DELETE',
+        });
+
+        console.log(`[JIRA] Successfully unlinked ${parentKey} -> ${childKey}`);
+    }
+
+    async unlinkDependency(blockerKey: string, blockedKey: string): Promise<void> {
+        await this.deleteIssueLink(blockerKey, blockedKey, this.settings.dependencyLinkType);
+    }
+
+    async unlinkEpic(parentKey: string, epicKey: string): Promise<void> {
+        await this.deleteIssueLink(parentKey, epicKey, this.settings.epic?.parentLinkType || 'Inclusion');
+    }
+
+    private async deleteIssueLink(inwardKey: string, outwardKey: string, linkType: string): Promise<void> {
+        const response = await this.makeRequest(`${this.apiBase}/issue/${inwardKey}?fields=issuelinks`);
+        const data = await response.json() as { fields: { issuelinks?: JiraIssueLink[] } };
+        const link = (data.fields.issuelinks || []).find((candidate) =>
+            candidate.type.name === linkType && candidate.outwardIssue?.key === outwardKey
+        );
+        if (!link) {
+            console.log(`[JIRA] ${inwardKey} has no ${linkType} link to ${outwardKey}, nothing to unlink`);
+            return;
+        }
+
+        await this.makeRequest(`${this.apiBase}/issueLink/${link.id}`, {
+            method: 'DELETE',
+        });
+
+        console.log(`[JIRA] Successfully unlinked ${inwardKey} -> ${outwardKey}`);
+    }
+
+    /**
+     * A browse URL also tells the instance the issue lives in, if its host is one of the configured ones.
+     */
+    static extractKeyFromUrl(input: string): { key: string; instance: string | null } {
         // If it's already a key format (PROJECT-123), return as is
         if (/^[A-Z]+-\d+$/.test(input.trim())) {
-            return input.trim();
+            return { key: input.trim(), instance: null };
         }
 
         // Extract from URL format
         const urlMatch = input.match(/\/browse\/([A-Z]+-\d+)/);
         if (urlMatch) {
-            return urlMatch[1];
+            return { key: urlMatch[1], instance: findInstanceByUrl(input) };
         }
 
         // If no match, assume it's a malformed key and return the input
-        return input.trim();
+        return { key: input.trim(), instance: null };
     }
 }
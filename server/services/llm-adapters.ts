@@ -0,0 +1,265 @@
+// Adapters of LLM APIs: one per protocol, an instance per provider from config/llm-providers.json
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { DecompositionBlock, LLMProviderSettings } from 'shared/schema';
+import { getProviderApiKey, getProviderLabel } from './llm-settings';
+import {
+    checkDecompositionOutput,
+    createOutputError,
+    DECOMPOSITION_JSON_SCHEMA,
+    getRepairPrompt,
+    MAX_REPAIR_ATTEMPTS,
+} from './llm-output';
+
+// Name of the structured output format and of the Anthropic tool that receives the blocks
+const DECOMPOSITION_OUTPUT_NAME = 'decomposition_blocks';
+
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 10000;
+
+// Health checks list the models; a provider that doesn't answer quickly is reported as unavailable
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+export interface LLMRequest {
+    system: string;
+    prompt: string;
+}
+
+export interface BlockStream {
+    signal?: AbortSignal;
+    // Set when the answer is streamed; called at the start of every attempt, so a repaired answer gets a fresh parser
+    createPush?: () => (chunk: string) => void;
+}
+
+interface AttemptStream {
+    signal?: AbortSignal;
+    push?: (chunk: string) => void;
+}
+
+const startAttempt = ({ signal, createPush }: BlockStream): AttemptStream => ({ signal, push: createPush?.() });
+
+export interface LLMAdapter {
+    readonly settings: LLMProviderSettings;
+    // False when the API key variable of the provider is not set
+    isConfigured(): boolean;
+    // Throws when the provider doesn't answer
+    checkHealth(): Promise<void>;
+    // Blocks of a valid answer; malformed answers are sent back to the model for repair
+    parseBlocks(request: LLMRequest, stream: BlockStream): Promise<DecompositionBlock[]>;
+}
+
+class OpenAIAdapter implements LLMAdapter {
+    private client?: OpenAI;
+    // Turned off after the first request the model rejects with response_format
+    private structuredOutput: boolean;
+
+    constructor(readonly settings: LLMProviderSettings) {
+        this.structuredOutput = settings.capabilities.structuredOutput;
+    }
+
+    isConfigured(): boolean {
+        return !this.settings.auth.apiKeyEnv || !!getProviderApiKey(this.settings);
+    }
+
+    private getClient(): OpenAI {
+        if (!this.client) {
+            this.client = new OpenAI({
+                // Local servers don't check the key, but the SDK requires one
+                apiKey: getProviderApiKey(this.settings) || 'none',
+                baseURL: this.settings.baseUrl,
+                defaultHeaders: this.settings.auth.headers,
+            });
+        }
+        return this.client;
+    }
+
+    async checkHealth(): Promise<void> {
+        await this.getClient().models.list({ timeout: HEALTH_CHECK_TIMEOUT, maxRetries: 0 });
+    }
+
+    async parseBlocks({ system, prompt }: LLMRequest, stream: BlockStream): Promise<DecompositionBlock[]> {
+        const label = getProviderLabel(this.settings);
+        const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+            { role: 'system', content: system },
+            { role: 'user', content: prompt },
+        ];
+
+        try {
+            let issues: string[] = [];
+            for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+                const content = await this.request(messages, startAttempt(stream));
+                console.log(`${label} response content:`, content);
+
+                const check = checkDecompositionOutput(content);
+                if (check.ok) {
+                    return check.blocks;
+                }
+
+                issues = check.issues;
+                console.warn(`${label} answer is malformed (attempt ${attempt + 1}):`, issues);
+                messages.push(
+                    { role: 'assistant', content },
+                    { role: 'user', content: getRepairPrompt(issues) },
+                );
+            }
+            throw createOutputError(issues);
+        } catch (error: any) {
+            console.error(`${label} parsing error:`, error);
+            throw new Error(`${label} parsing failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Asks for structured output when the model supports it. Older models and OpenAI-compatible hosts reject
+     * response_format with json_schema; then the format is only described in the prompt.
+     */
+    private async request(messages: OpenAI.Chat.ChatCompletionMessageParam[], stream: AttemptStream): Promise<string> {
+        const request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming = {
+            model: this.settings.model,
+            messages,
+            temperature: this.settings.temperature,
+            ...(this.settings.capabilities.maxOutputTokens ? { max_tokens: this.settings.capabilities.maxOutputTokens } : {}),
+        };
+
+        if (this.structuredOutput) {
+            try {
+                return await this.complete({
+                    ...request,
+                    response_format: {
+                        type: 'json_schema',
+                        json_schema: { name: DECOMPOSITION_OUTPUT_NAME, schema: DECOMPOSITION_JSON_SCHEMA, strict: true },
+                    },
+                }, stream);
+            } catch (error: any) {
+                if (!(error instanceof OpenAI.BadRequestError) || !/response_format|json_schema/i.test(error.message)) {
+                    throw error;
+                }
+                console.warn(`${getProviderLabel(this.settings)} model does not support structured output, falling back to the prompt format`);
+                this.structuredOutput = false;
+            }
+        }
+
+        return this.complete(request, stream);
+    }
+
+    private async complete(request: OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, stream: AttemptStream): Promise<string> {
+        if (!stream.push) {
+            const response = await this.getClient().chat.completions.create(request, { signal: stream.signal });
+            console.log(`${getProviderLabel(this.settings)} raw response:`, response);
+            return response.choices[0].message.content || '';
+        }
+
+        const chunks = await this.getClient().chat.completions.create({ ...request, stream: true }, { signal: stream.signal });
+        let content = '';
+        for await (const chunk of chunks) {
+            const delta = chunk.choices[0]?.delta?.content || '';
+            content += delta;
+            stream.push(delta);
+        }
+        return content;
+    }
+}
+
+class AnthropicAdapter implements LLMAdapter {
+    private client?: Anthropic;
+
+    constructor(readonly settings: LLMProviderSettings) {}
+
+    isConfigured(): boolean {
+        return !this.settings.auth.apiKeyEnv || !!getProviderApiKey(this.settings);
+    }
+
+    private getClient(): Anthropic {
+        if (!this.client) {
+            this.client = new Anthropic({
+                apiKey: getProviderApiKey(this.settings) || 'none',
+                baseURL: this.settings.baseUrl,
+                defaultHeaders: this.settings.auth.headers,
+            });
+        }
+        return this.client;
+    }
+
+    async checkHealth(): Promise<void> {
+        await this.getClient().models.list({}, { timeout: HEALTH_CHECK_TIMEOUT, maxRetries: 0 });
+    }
+
+    async parseBlocks({ system, prompt }: LLMRequest, stream: BlockStream): Promise<DecompositionBlock[]> {
+        const label = getProviderLabel(this.settings);
+        const { structuredOutput, maxOutputTokens } = this.settings.capabilities;
+        const messages: Anthropic.MessageParam[] = [
+            { role: 'user', content: prompt },
+        ];
+
+        try {
+            let issues: string[] = [];
+            for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+                // The answer comes as the input of a forced tool call, validated by the API against the schema
+                const response = await this.request({
+                    model: this.settings.model,
+                    max_tokens: maxOutputTokens || DEFAULT_ANTHROPIC_MAX_TOKENS,
+                    system,
+                    messages,
+                    ...(structuredOutput ? {
+                        tools: [{
+                            name: DECOMPOSITION_OUTPUT_NAME,
+                            description: 'Save the blocks of the parsed decomposition',
+                            input_schema: DECOMPOSITION_JSON_SCHEMA,
+                        }],
+                        tool_choice: { type: 'tool', name: DECOMPOSITION_OUTPUT_NAME },
+                    } : {}),
+                    temperature: this.settings.temperature,
+                }, startAttempt(stream));
+
+                console.log(`${label} raw response:`, response);
+
+                const toolUse = response.content.find((block) => block.type === 'tool_use');
+                const textBlock = response.content.find((block) => block.type === 'text');
+                if (!toolUse && !textBlock) {
+                    throw new Error(`Unexpected response format from ${label}`);
+                }
+
+                const check = toolUse
+                    ? checkDecompositionOutput(toolUse.input)
+                    : checkDecompositionOutput(textBlock?.type === 'text' ? textBlock.text : '');
+                if (check.ok) {
+                    return check.blocks;
+                }
+
+                issues = check.issues;
+                console.warn(`${label} answer is malformed (attempt ${attempt + 1}):`, issues);
+                messages.push({ role: 'assistant', content: response.content });
+                messages.push(toolUse
+                    ? {
+                        role: 'user',
+                        content: [{ type: 'tool_result', tool_use_id: toolUse.id, content: getRepairPrompt(issues), is_error: true }],
+                    }
+                    : { role: 'user', content: getRepairPrompt(issues) });
+            }
+            throw createOutputError(issues);
+        } catch (error: any) {
+            console.error(`${label} parsing error:`, error);
+            throw new Error(`${label} parsing failed: ${error.message}`);
+        }
+    }
+
+    private async request(request: Anthropic.MessageCreateParamsNonStreaming, stream: AttemptStream): Promise<Anthropic.Message> {
+        if (!stream.push) {
+            return this.getClient().messages.create(request, { signal: stream.signal });
+        }
+
+        const push = stream.push;
+        const messageStream = this.getClient().messages.stream(request, { signal: stream.signal });
+        // Tool input arrives as JSON deltas, a text answer without tools as text deltas
+        messageStream.on('inputJson', (delta) => push(delta));
+        messageStream.on('text', (delta) => push(delta));
+        return messageStream.finalMessage();
+    }
+}
+
+// Another vendor is one more protocol in LLMProviderSettingsSchema.type and an adapter here
+const adapterFactories: Record<LLMProviderSettings['type'], (settings: LLMProviderSettings) => LLMAdapter> = {
+    openai: (settings) => new OpenAIAdapter(settings),
+    anthropic: (settings) => new AnthropicAdapter(settings),
+};
+
+export const createLLMAdapter = (settings: LLMProviderSettings): LLMAdapter => adapterFactories[settings.type](settings);
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { DecompositionBlock, DecompositionBlockSchema } from 'shared/schema';
+
+// How many times a malformed answer is sent back to the model with the validation errors
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// The model only sees the first errors: a long list of the same mistake doesn't help it
+const MAX_REPORTED_ISSUES = 20;
+
+const DecompositionOutputSchema = z.object({
+    blocks: z.array(DecompositionBlockSchema),
+}).superRefine((output, context) => {
+    output.blocks.forEach((block, index) => {
+        if (block.type === 'task' && !block.taskInfo) {
+            context.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['blocks', index, 'taskInfo'],
+                message: 'task block must have taskInfo',
+            });
+        }
+    });
+});
+
+const nullableString = { type: ['string', 'null'] };
+const nullableNumber = { type: ['number', 'null'] };
+
+/**
+ * JSON Schema of the answer for OpenAI structured outputs and the Anthropic tool input. Strict mode requires
+ * every property to be listed as required, so optional fields of DecompositionBlockSchema are required here.
+ */
+export const DECOMPOSITION_JSON_SCHEMA = {
+    type: 'object' as const,
+    properties: {
+        blocks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    type: { type: 'string', enum: ['text', 'task'] },
+                    content: { type: 'string' },
+                    taskInfo: {
+                        anyOf: [
+                            {
+                                type: 'object',
+                                properties: {
+                                    title: { type: 'string' },
+                                    repository: nullableString,
+                                    estimation: nullableString,
+                                    risk: nullableString,
+                                    estimationSP: nullableNumber,
+                                    riskSP: nullableNumber,
+                                    estimationByLLM: {
+                                        type: 'object',
+                                        properties: {
+                                            estimation: nullableString,
+                                            risk: nullableString,
+                                            reasoning: nullableString,
+                                        },
+                                        required: ['estimation', 'risk', 'reasoning'],
+                                        additionalProperties: false,
+                                    },
+                                    dependsOn: { type: 'array', items: { type: 'integer' } },
+                                },
+                                required: ['title', 'repository', 'estimation', 'risk', 'estimationSP', 'riskSP', 'estimationByLLM', 'dependsOn'],
+                                additionalProperties: false,
+                            },
+                            { type: 'null' },
+                        ],
+                    },
+                },
+                required: ['type', 'content', 'taskInfo'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['blocks'],
+    additionalProperties: false,
+};
+
+/**
+ * Thrown when the model keeps answering in a wrong format after all repair attempts.
+ */
+export class LLMOutputError extends Error {
+    constructor(message: string, public issues: string[]) {
+        super(message);
+        this.name = 'LLMOutputError';
+    }
+}
+
+export type DecompositionOutputCheck =
+    | { ok: true; blocks: DecompositionBlock[] }
+    | { ok: false; issues: string[] };
+
+// Models wrap JSON in code fences or add a sentence around it despite the prompt
+const extractJson = (text: string): string => {
+    const unfenced = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+};
+
+/**
+ * Validates an answer of the model against DecompositionBlockSchema. Takes the raw text of the answer
+ * or the already parsed input of a tool call.
+ */
+export function checkDecompositionOutput(output: string | unknown): DecompositionOutputCheck {
+    let data: unknown = output;
+    if (typeof output === 'string') {
+        try {
+            data = JSON.parse(extractJson(output));
+        } catch (error: any) {
+            return { ok: false, issues: [`answer is not valid JSON: ${error.message}`] };
+        }
+    }
+
+    const result = DecompositionOutputSchema.safeParse(data);
+    if (result.success) {
+        return { ok: true, blocks: result.data.blocks };
+    }
+    return {
+        ok: false,
+        issues: result.error.issues
+            .slice(0, MAX_REPORTED_ISSUES)
+            .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+}
+
+export const getRepairPrompt = (issues: string[]) => `
+Ответ не прошёл проверку формата:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Исправь ошибки и верни ответ целиком в том же JSON-формате, без пояснений.
+`;
+
+export const createOutputError = (issues: string[]) => new LLMOutputError(
+    `answer does not match the format after ${MAX_REPAIR_ATTEMPTS} repair attempts: ${issues.slice(0, 3).join('; ')}`,
+    issues
+);
+
+/**
+ * Incremental parser of a streamed answer: calls onBlock for every complete object of the "blocks" array
+ * as soon as its closing brace arrives. The complete answer is still checked by checkDecompositionOutput.
+ */
+export function createBlockStreamParser(onBlock: (block: DecompositionBlock, index: number) => void): (chunk: string) => void {
+    let text = '';
+    let position = -1; // Next character to scan, after the "[" of the blocks array once it is found
+    let objectStart = 0;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let finished = false;
+    let index = 0;
+
+    const emit = (objectText: string) => {
+        try {
+            const result = DecompositionBlockSchema.safeParse(JSON.parse(objectText));
+            if (result.success) {
+                onBlock(result.data, index++);
+            }
+        } catch {
+            // A broken block is reported by the check of the complete answer
+        }
+    };
+
+    return (chunk) => {
+        text += chunk;
+        if (finished) {
+            return;
+        }
+        if (position === -1) {
+            const match = /"blocks"\s*:\s*\[/.exec(text);
+            if (!match) {
+                return;
+            }
+            position = match.index + match[0].length;
+        }
+
+        for (; position < text.length && !finished; position++) {
+            const char = text[position];
+            if (inString) {
+                if (escaped) {
+                    escaped = false;
+                } else if (char === '\\') {
+                    escaped = true;
+                } else if (char === '"') {
+                    inString = false;
+                }
+            } else if (char === '"') {
+                inString = true;
+            } else if (char === '{') {
+                if (depth === 0) {
+                    objectStart = position;
+                }
+                depth++;
+            } else if (char === '}') {
+                depth--;
+                if (depth === 0) {
+                    emit(text.slice(objectStart, position + 1));
+                }
+            } else if (char === ']' && depth === 0) {
+                finished = true;
+            }
+        }
+    };
+}
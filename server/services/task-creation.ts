@@ -0,0 +1,574 @@
+import {
+    CreatedIssue,
+    CreateTaskRequest,
+    RollbackResponse,
+    TaskCreationPreview,
+    TaskCreationProgress,
+    TaskCreationResponse,
+    TaskCreationResult
+} from 'shared/schema';
+import { JiraService, LinkedIssue, TaskForCreation } from './jira';
+import { CreationBatch, CreationBatchRegistry } from './creation-batches';
+import { mapWithConcurrency, trackRetries } from './jira-requests';
+
+// "[repo] Title" -> { repository: 'repo', title: 'title' }, ignoring case and extra whitespace
+const parseSummary = (summary: string): { repository: string | null; title: string } => {
+    const normalized = summary.replace(/\s+/g, ' ').trim().toLowerCase();
+    const match = normalized.match(/^\[([^\]]+)\]\s*(.*)$/);
+    return match
+        ? { repository: match[1].trim(), title: match[2] }
+        : { repository: null, title: normalized };
+};
+
+/**
+ * Finds the already linked issue for every task. Each issue is matched at most once,
+ * so two tasks with the same summary still produce two issues.
+ */
+const matchExistingIssues = (tasks: TaskForCreation[], linkedIssues: LinkedIssue[]): Array<LinkedIssue | null> => {
+    const available = linkedIssues.map((issue) => ({ issue, parsed: parseSummary(issue.summary) }));
+
+    return tasks.map((task) => {
+        const parsed = parseSummary(task.summary);
+        const index = available.findIndex((candidate) =>
+            candidate.parsed.repository === parsed.repository && candidate.parsed.title === parsed.title
+        );
+        if (index === -1) {
+            return null;
+        }
+        const [{ issue }] = available.splice(index, 1);
+        return issue;
+    });
+};
+
+export class TaskCreationService {
+    /**
+     * owner identifies the personal session the created batches belong to; only it may roll them back.
+     */
+    constructor(private jiraService: JiraService, private batches: CreationBatchRegistry, private owner: string | null = null) {}
+
+    private toJiraTasks(tasks: CreateTaskRequest['tasks'], parentKey?: string): TaskForCreation[] {
+        return tasks.map((task) => ({
+            parentKey,
+            summary: task.summary,
+            description: task.description || '',
+            estimation: task.estimation || undefined,
+            storyPoints: task.storyPoints || undefined,
+            assignee: task.assignee || undefined,
+            components: task.components,
+            labels: task.labels,
+            fixVersion: task.fixVersion || undefined,
+            startDate: task.startDate,
+            dueDate: task.dueDate,
+        }));
+    }
+
+    /**
+     * Dry run: builds the exact payloads that createTasks would send, without creating anything in JIRA.
+     * Problems that would fail the real run are reported as warnings.
+     */
+    async previewTasks(request: CreateTaskRequest): Promise<TaskCreationResponse> {
+        const { parentJiraKey } = request;
+        const projectKey = request.projectKey || this.jiraService.getSettings().defaultProject;
+        const projectSettings = this.jiraService.getProjectSettings(projectKey);
+        const jiraTasks = this.toJiraTasks(request.tasks, parentJiraKey);
+        const warnings: string[] = [];
+
+        let estimationOptions: Record<string, string> = {};
+        try {
+            estimationOptions = await this.jiraService.getEstimationOptions(projectKey);
+        } catch (error: any) {
+            warnings.push(`Не удалось получить варианты поля ${projectSettings.fields.estimation}, оценки не будут заполнены: ${error.message}`);
+        }
+        const estimationWarning = this.jiraService.getEstimationWarning(projectKey);
+        if (estimationWarning) {
+            warnings.push(estimationWarning);
+        }
+
+        if (!projectSettings.fields.startDate && jiraTasks.some((task) => task.startDate)) {
+            warnings.push(`В проекте ${projectKey} не настроено поле даты начала (fields.startDate): будет заполнен только срок`);
+        }
+
+        let existingIssues: Array<LinkedIssue | null> = jiraTasks.map(() => null);
+        if (parentJiraKey) {
+            try {
+                existingIssues = matchExistingIssues(jiraTasks, await this.jiraService.getLinkedIssues(parentJiraKey));
+            } catch (error: any) {
+                warnings.push(`Не удалось проверить уже созданные задачи ${parentJiraKey}: ${error.message}`);
+            }
+        }
+
+        const preview: TaskCreationPreview = {
+            projectKey,
+            fieldMapping: {
+                issueTypeId: this.jiraService.getIssueTypeId(projectKey),
+                estimation: projectSettings.fields.estimation,
+                storyPoints: projectSettings.fields.storyPoints,
+                estimationOptions,
+            },
+            issues: [],
+            links: [],
+            sprints: [],
+            remoteLinks: [],
+            warnings,
+        };
+
+        let epicKey: string | undefined;
+        if (request.createEpic && parentJiraKey) {
+            try {
+                const parentTask = await this.jiraService.getIssue(parentJiraKey);
+                epicKey = `<${parentTask.fields.summary}>`;
+                preview.epic = {
+                    summary: parentTask.fields.summary,
+                    payload: { fields: this.jiraService.buildEpicFields(parentTask, projectKey) },
+                };
+                preview.links.push(this.jiraService.buildEpicLinkPayload(parentJiraKey, epicKey));
+            } catch (error: any) {
+                warnings.push(`Не удалось подготовить эпик по ${parentJiraKey}: ${error.message}`);
+            }
+        }
+
+        const taskResults: TaskCreationResult[] = jiraTasks.map((task, index) => {
+            const existingIssue = existingIssues[index];
+            if (existingIssue) {
+                return {
+                    summary: task.summary,
+                    status: 'existing',
+                    key: existingIssue.key,
+                    url: this.jiraService.getBrowseUrl(existingIssue.key),
+                };
+            }
+
+            const estimationWarning = this.jiraService.describeUnknownEstimation(task, projectKey, estimationOptions);
+            if (estimationWarning) {
+                warnings.push(estimationWarning);
+            }
+            const fields = this.jiraService.buildIssueFields(
+                { ...task, estimation: estimationWarning ? undefined : task.estimation, epicKey },
+                projectKey,
+                estimationOptions
+            );
+            preview.issues.push({ summary: task.summary, payload: { fields } });
+            // The key of the new issue is not known until it is created
+            const linkPayload = parentJiraKey && this.jiraService.buildLinkPayload(parentJiraKey, `<${task.summary}>`);
+            if (linkPayload) {
+                preview.links.push(linkPayload);
+            }
+
+            return { summary: task.summary, status: 'planned' };
+        });
+
+        // Issues that don't exist yet are referenced by summary, like in parent links
+        const previewKey = (index: number) => taskResults[index].key || `<${jiraTasks[index].summary}>`;
+        this.getDependencies(request.tasks)
+            .filter(({ blocker, blocked }) => taskResults[blocker].status === 'planned' || taskResults[blocked].status === 'planned')
+            .forEach(({ blocker, blocked }) => {
+                preview.links.push(this.jiraService.buildDependencyLinkPayload(previewKey(blocker), previewKey(blocked)));
+            });
+
+        this.groupBySprint(request, taskResults.map((result, index) => result.status === 'planned' ? index : -1))
+            .forEach((indexes, sprintId) => {
+                preview.sprints.push({ sprintId, issues: indexes.map((index) => `<${jiraTasks[index].summary}>`) });
+            });
+
+        request.tasks.forEach((task, index) => {
+            if (taskResults[index].status === 'planned') {
+                (task.mockups || []).forEach((link) => {
+                    preview.remoteLinks.push({ issue: `<${task.summary}>`, payload: this.jiraService.buildRemoteLinkPayload(link) });
+                });
+            }
+        });
+
+        return {
+            success: true,
+            createdTasks: [],
+            taskResults,
+            errors: [],
+            preview,
+        };
+    }
+
+    async createTasks(
+        request: CreateTaskRequest,
+        onProgress?: (progress: TaskCreationProgress) => void
+    ): Promise<TaskCreationResponse> {
+        const { result, retries } = await trackRetries(() => this.runCreation(request, onProgress));
+        if (retries > 0) {
+            console.log(`[JIRA] Task creation needed ${retries} retried requests`);
+        }
+        return { ...result, retries };
+    }
+
+    private async runCreation(
+        request: CreateTaskRequest,
+        onProgress?: (progress: TaskCreationProgress) => void
+    ): Promise<TaskCreationResponse> {
+        const { parentJiraKey } = request;
+        const projectKey = request.projectKey || this.jiraService.getSettings().defaultProject;
+
+        // Prepare tasks for JIRA creation
+        const jiraTasks = this.toJiraTasks(request.tasks, parentJiraKey);
+
+        const taskResults: TaskCreationResult[] = jiraTasks.map((task) => ({
+            summary: task.summary,
+            status: 'failed',
+        }));
+        const createdTasks: CreatedIssue[] = [];
+        const errors: string[] = [];
+        const batch = this.batches.create(this.jiraService.getInstance(), this.owner);
+        let epic: CreatedIssue | undefined;
+
+        try {
+            // Skip tasks created by previous runs: they are already linked to the parent
+            const existingIssues = parentJiraKey
+                ? matchExistingIssues(jiraTasks, await this.jiraService.getLinkedIssues(parentJiraKey))
+                : jiraTasks.map(() => null);
+
+            const pendingIndexes: number[] = [];
+            existingIssues.forEach((issue, index) => {
+                if (issue) {
+                    console.log(`[JIRA] "${jiraTasks[index].summary}" already exists as ${issue.key}`);
+                    taskResults[index] = {
+                        summary: jiraTasks[index].summary,
+                        status: 'existing',
+                        key: issue.key,
+                        url: this.jiraService.getBrowseUrl(issue.key),
+                    };
+                } else {
+                    pendingIndexes.push(index);
+                }
+            });
+
+            // The epic is needed only when there is something to put in it
+            if (request.createEpic && parentJiraKey && pendingIndexes.length > 0) {
+                epic = await this.createEpic(parentJiraKey, projectKey, errors, batch);
+            }
+
+            const pendingTasks = pendingIndexes.map((index) => ({ ...jiraTasks[index], epicKey: epic?.key }));
+            const markCreated = (pendingIndex: number, issue: { key: string; id: string }) => {
+                const taskIndex = pendingIndexes[pendingIndex];
+                const createdTask = {
+                    key: issue.key,
+                    id: issue.id,
+                    summary: jiraTasks[taskIndex].summary,
+                    url: this.jiraService.getBrowseUrl(issue.key),
+                };
+                createdTasks.push(createdTask);
+                batch.issues.push({ key: createdTask.key, summary: createdTask.summary });
+                taskResults[taskIndex] = {
+                    summary: createdTask.summary,
+                    status: 'created',
+                    key: createdTask.key,
+                    url: createdTask.url,
+                };
+            };
+            const markFailed = (pendingIndex: number, error: string) => {
+                const taskIndex = pendingIndexes[pendingIndex];
+                taskResults[taskIndex].error = error;
+                errors.push(`Ошибка создания "${jiraTasks[taskIndex].summary}": ${error}`);
+            };
+
+            if (pendingTasks.length === 1) {
+                // Single task creation
+                const result = await this.jiraService.createIssue(pendingTasks[0], projectKey);
+                markCreated(0, result);
+            } else if (pendingTasks.length > 1) {
+                // Bulk creation, chunked by JiraService
+                let created = 0;
+                let failed = 0;
+                const bulkResults = await this.jiraService.createBulkIssues(pendingTasks, projectKey, (chunkProgress) => {
+                    chunkProgress.results.forEach((result) => result.issue ? created++ : failed++);
+                    onProgress?.({
+                        chunk: chunkProgress.chunk,
+                        chunks: chunkProgress.chunks,
+                        processed: chunkProgress.offset + chunkProgress.results.length,
+                        total: pendingTasks.length,
+                        created,
+                        failed,
+                    });
+                });
+
+                bulkResults.forEach((result, index) => {
+                    if (result.issue) {
+                        markCreated(index, result.issue);
+                    } else {
+                        markFailed(index, result.error || 'Неизвестная ошибка');
+                    }
+                });
+            }
+
+            // Link created tasks to parent if provided
+            if (parentJiraKey && createdTasks.length > 0) {
+                await this.linkToParent(parentJiraKey, createdTasks, taskResults, errors, batch);
+            }
+
+            await this.linkDependencies(request.tasks, taskResults, errors, batch);
+
+            await this.moveToSprints(request, taskResults, errors, batch);
+
+            await this.attachMockups(request.tasks, taskResults, errors);
+        } catch (creationError: any) {
+            console.error('JIRA creation error:', creationError);
+            errors.push(`Ошибка при создании задач: ${creationError.message}`);
+            taskResults
+                .filter((result) => result.status === 'failed' && !result.error)
+                .forEach((result) => {
+                    result.error = creationError.message;
+                });
+        }
+
+        const hasFailures = taskResults.some((result) => result.status === 'failed');
+        const estimationWarning = this.jiraService.getEstimationWarning(projectKey);
+        return {
+            success: errors.length === 0 && !hasFailures,
+            createdTasks,
+            epic,
+            taskResults,
+            errors,
+            warnings: estimationWarning ? [estimationWarning] : undefined,
+            batchId: batch.issues.length > 0 ? batch.id : undefined,
+        };
+    }
+
+    /**
+     * Issue links are created in parallel (up to requests.maxConcurrency); a failed link keeps the task created
+     * and is reported next to it. Sub-task and field relationships were already set by the create request.
+     */
+    private async linkToParent(
+        parentKey: string,
+        createdTasks: CreatedIssue[],
+        taskResults: TaskCreationResult[],
+        errors: string[],
+        batch: CreationBatch
+    ): Promise<void> {
+        if (!this.jiraService.needsLinking()) {
+            createdTasks.forEach((task) => batch.links.push({ parentKey, childKey: task.key }));
+            return;
+        }
+
+        const { maxConcurrency } = this.jiraService.getSettings().requests;
+        const linkResults = await mapWithConcurrency(
+            createdTasks,
+            maxConcurrency,
+            (task) => this.jiraService.linkIssues(parentKey, task.key)
+        );
+
+        linkResults.forEach((result, index) => {
+            const task = createdTasks[index];
+            if (!result.error) {
+                batch.links.push({ parentKey, childKey: task.key });
+                return;
+            }
+
+            console.warn(`Failed to link ${task.key} to ${parentKey}:`, result.error);
+            const taskResult = taskResults.find((candidate) => candidate.key === task.key);
+            if (taskResult) {
+                taskResult.linkError = result.error.message;
+            }
+            errors.push(`Задача ${task.key} "${task.summary}" создана, но не связана с ${parentKey}: ${result.error.message}`);
+        });
+    }
+
+    // dependsOn of every task -> "blocker blocks blocked" pairs of task indexes
+    private getDependencies(tasks: CreateTaskRequest['tasks']): Array<{ blocker: number; blocked: number }> {
+        return tasks.flatMap((task, blocked) => (task.dependsOn || [])
+            .filter((blocker) => blocker !== blocked && blocker < tasks.length)
+            .map((blocker) => ({ blocker, blocked })));
+    }
+
+    /**
+     * Creates dependency links between tasks of the request. Links between two issues that both existed before
+     * were created by a previous run; dependencies on failed tasks are skipped, their error is already reported.
+     */
+    private async linkDependencies(
+        tasks: CreateTaskRequest['tasks'],
+        taskResults: TaskCreationResult[],
+        errors: string[],
+        batch: CreationBatch
+    ): Promise<void> {
+        const dependencies = this.getDependencies(tasks).filter(({ blocker, blocked }) =>
+            taskResults[blocker].key && taskResults[blocked].key
+            && (taskResults[blocker].status === 'created' || taskResults[blocked].status === 'created')
+        );
+        if (dependencies.length === 0) {
+            return;
+        }
+
+        const { maxConcurrency } = this.jiraService.getSettings().requests;
+        const linkResults = await mapWithConcurrency(
+            dependencies,
+            maxConcurrency,
+            ({ blocker, blocked }) => this.jiraService.linkDependency(taskResults[blocker].key!, taskResults[blocked].key!)
+        );
+
+        linkResults.forEach((result, index) => {
+            const blockerKey = taskResults[dependencies[index].blocker].key!;
+            const blockedKey = taskResults[dependencies[index].blocked].key!;
+            if (!result.error) {
+                batch.dependencies.push({ blockerKey, blockedKey });
+                return;
+            }
+
+            console.warn(`Failed to link dependency ${blockerKey} -> ${blockedKey}:`, result.error);
+            errors.push(`Не удалось связать ${blockerKey} → ${blockedKey} (блокирует): ${result.error.message}`);
+        });
+    }
+
+    /**
+     * Creates an Epic from the parent issue and links the parent to it. Without the epic the tasks can't be
+     * attached to it, so a failed creation stops the run; a failed link is only reported.
+     */
+    private async createEpic(parentKey: string, projectKey: string, errors: string[], batch: CreationBatch): Promise<CreatedIssue> {
+        const parentTask = await this.jiraService.getIssue(parentKey);
+        const issue = await this.jiraService.createEpic(parentTask, projectKey);
+        const epic = {
+            key: issue.key,
+            id: issue.id,
+            summary: parentTask.fields.summary,
+            url: this.jiraService.getBrowseUrl(issue.key),
+        };
+        batch.issues.push({ key: epic.key, summary: epic.summary });
+
+        try {
+            await this.jiraService.linkEpic(parentKey, epic.key);
+            batch.links.push({ parentKey, childKey: epic.key, epic: true });
+        } catch (error: any) {
+            console.warn(`Failed to link epic ${epic.key} to ${parentKey}:`, error);
+            errors.push(`Эпик ${epic.key} создан, но не связан с ${parentKey}: ${error.message}`);
+        }
+
+        return epic;
+    }
+
+    // Task indexes grouped by target sprint: the task's own sprintId or the request's one; -1 indexes are skipped
+    private groupBySprint(request: CreateTaskRequest, indexes: number[]): Map<number, number[]> {
+        const groups = new Map<number, number[]>();
+        indexes.filter((index) => index !== -1).forEach((index) => {
+            const sprintId = request.tasks[index].sprintId ?? request.sprintId;
+            if (sprintId !== undefined) {
+                groups.set(sprintId, [...(groups.get(sprintId) || []), index]);
+            }
+        });
+        return groups;
+    }
+
+    /**
+     * Moves created issues to their sprints. Issues that existed before stay where the team has put them.
+     */
+    private async moveToSprints(
+        request: CreateTaskRequest,
+        taskResults: TaskCreationResult[],
+        errors: string[],
+        batch: CreationBatch
+    ): Promise<void> {
+        const created = taskResults.map((result, index) => result.status === 'created' ? index : -1);
+
+        for (const [sprintId, indexes] of Array.from(this.groupBySprint(request, created))) {
+            const issueKeys = indexes.map((index) => taskResults[index].key!);
+            try {
+                await this.jiraService.moveIssuesToSprint(sprintId, issueKeys);
+                batch.sprintIssues.push(...issueKeys);
+            } catch (error: any) {
+                console.warn(`Failed to move ${issueKeys.join(', ')} to sprint ${sprintId}:`, error);
+                indexes.forEach((index) => {
+                    taskResults[index].sprintError = error.message;
+                });
+                errors.push(`Задачи ${issueKeys.join(', ')} созданы, но не перенесены в спринт ${sprintId}: ${error.message}`);
+            }
+        }
+    }
+
+    /**
+     * Attaches mockup links to created issues as remote links. Links of a deleted issue go away with it,
+     * so they are not tracked for rollback.
+     */
+    private async attachMockups(
+        tasks: CreateTaskRequest['tasks'],
+        taskResults: TaskCreationResult[],
+        errors: string[]
+    ): Promise<void> {
+        const remoteLinks = tasks.flatMap((task, index) => taskResults[index].status === 'created'
+            ? (task.mockups || []).map((link) => ({ index, link }))
+            : []);
+        if (remoteLinks.length === 0) {
+            return;
+        }
+
+        const { maxConcurrency } = this.jiraService.getSettings().requests;
+        const linkResults = await mapWithConcurrency(
+            remoteLinks,
+            maxConcurrency,
+            ({ index, link }) => this.jiraService.addRemoteLink(taskResults[index].key!, link)
+        );
+
+        linkResults.forEach((result, position) => {
+            if (!result.error) {
+                return;
+            }
+            const { index, link } = remoteLinks[position];
+            const issueKey = taskResults[index].key!;
+            console.warn(`Failed to attach ${link.url} to ${issueKey}:`, result.error);
+            taskResults[index].mockupError = result.error.message;
+            errors.push(`Не удалось прикрепить макет ${link.url} к ${issueKey}: ${result.error.message}`);
+        });
+    }
+
+    /**
+     * Undoes a creation batch: deletes created issues or moves them to the cancelled status from config/jira.json.
+     * Keeps going after failures and reports every issue that could not be undone.
+     */
+    async rollbackBatch(batchId: string): Promise<RollbackResponse> {
+        const batch = this.batches.get(batchId);
+        if (!batch) {
+            throw new Error(`Пакет ${batchId} не найден: откатить можно только недавно созданные задачи`);
+        }
+        if (batch.rolledBack) {
+            throw new Error(`Пакет ${batchId} уже откачен`);
+        }
+
+        const { rollback } = this.jiraService.getSettings();
+        const rolledBack: string[] = [];
+        const failed: RollbackResponse['failed'] = [];
+
+        for (const issue of batch.issues) {
+            try {
+                if (rollback.mode === 'delete') {
+                    // Links of a deleted issue are removed by JIRA itself
+                    await this.jiraService.deleteIssue(issue.key);
+                } else {
+                    for (const link of batch.links.filter((link) => link.childKey === issue.key)) {
+                        if (link.epic) {
+                            await this.jiraService.unlinkEpic(link.parentKey, link.childKey);
+                        } else {
+                            await this.jiraService.unlinkIssues(link.parentKey, link.childKey);
+                        }
+                    }
+                    if (batch.sprintIssues.includes(issue.key)) {
+                        await this.jiraService.moveIssuesToBacklog([issue.key]);
+                        batch.sprintIssues = batch.sprintIssues.filter((key) => key !== issue.key);
+                    }
+                    // A cancelled issue shouldn't keep blocking the others
+                    for (const dependency of batch.dependencies.filter((link) => link.blockerKey === issue.key || link.blockedKey === issue.key)) {
+                        await this.jiraService.unlinkDependency(dependency.blockerKey, dependency.blockedKey);
+                        batch.dependencies = batch.dependencies.filter((link) => link !== dependency);
+                    }
+                    await this.jiraService.transitionIssue(issue.key, rollback.status);
+                }
+                rolledBack.push(issue.key);
+            } catch (error: any) {
+                console.error(`Failed to roll back ${issue.key}:`, error);
+                failed.push({ key: issue.key, error: error.message });
+            }
+        }
+
+        // Only the issues that could not be undone stay in the batch, so the rollback can be retried
+        batch.issues = batch.issues.filter((issue) => !rolledBack.includes(issue.key));
+        batch.rolledBack = batch.issues.length === 0;
+
+        return {
+            success: failed.length === 0,
+            mode: rollback.mode,
+            rolledBack,
+            failed,
+        };
+    }
+}
@@ -0,0 +1,229 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { JiraConnectionStatus } from 'shared/schema';
+import { JiraCredentials, JiraService } from './jira';
+import { DEFAULT_INSTANCE } from './jira-settings';
+
+interface EncryptedValue {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+interface StoredSession {
+    instance: string; // A session signs in to one Jira instance
+    credentials: EncryptedValue;
+    user: NonNullable<JiraConnectionStatus['user']>;
+    authType: string;
+    createdAt: number;
+    lastSeenAt: number;
+}
+
+// Sessions idle for longer than this require signing in again
+const SESSION_TTL = 12 * 60 * 60 * 1000;
+
+// Expired sessions are removed from memory and from the file at this interval
+const SWEEP_INTERVAL = 60 * 60 * 1000;
+
+const SESSIONS_FILE = 'data/jira-sessions.json';
+
+// The file can be decrypted by anyone who guesses the secret, so placeholders and short secrets don't enable it
+const MIN_SECRET_LENGTH = 32;
+const PLACEHOLDER_SECRETS = new Set(['change_me', 'changeme', 'secret']);
+
+// The file and the maps are keyed by a hash: a session id read from the file can't be used as a cookie
+const hashSessionId = (sessionId: string) => crypto.createHash('sha256').update(sessionId).digest('hex');
+
+/**
+ * Personal Jira credentials bound to browser sessions. Tokens are kept encrypted with AES-256-GCM;
+ * a decrypted copy lives only inside the user's JiraService instance.
+ *
+ * With SESSION_SECRET set, sessions are persisted to data/jira-sessions.json and survive restarts.
+ * Without it, or with a placeholder secret, the key is random and sessions live until the process exits.
+ */
+export class UserSessionStore {
+    private key: Buffer;
+    private persistent: boolean;
+    private sessions = new Map<string, StoredSession>();
+    private services = new Map<string, JiraService>();
+
+    constructor(secret: string | undefined = process.env.SESSION_SECRET) {
+        const weakSecret = !!secret && (PLACEHOLDER_SECRETS.has(secret) || secret.length < MIN_SECRET_LENGTH);
+        this.persistent = !!secret && !weakSecret;
+        this.key = this.persistent
+            ? crypto.createHash('sha256').update(secret!).digest()
+            : crypto.randomBytes(32);
+
+        if (this.persistent) {
+            this.load();
+            this.sweep();
+        } else if (weakSecret) {
+            console.warn(`[SESSIONS] SESSION_SECRET is a placeholder or shorter than ${MIN_SECRET_LENGTH} characters: personal Jira sessions are not saved to ${SESSIONS_FILE}`);
+        } else {
+            console.warn('[SESSIONS] SESSION_SECRET is not set: personal Jira sessions will be lost on restart');
+        }
+
+        setInterval(() => this.sweep(), SWEEP_INTERVAL).unref();
+    }
+
+    /**
+     * Checks the credentials with a "who am I" request and opens a session on success.
+     */
+    async create(credentials: JiraCredentials, instance: string): Promise<{ sessionId: string; status: JiraConnectionStatus }> {
+        const jiraService = new JiraService(credentials, instance);
+        const status = await jiraService.verifyConnection();
+        if (!status.ok || !status.user) {
+            throw new Error(status.error || 'Не удалось авторизоваться в JIRA');
+        }
+
+        const sessionId = crypto.randomBytes(32).toString('hex');
+        this.sessions.set(hashSessionId(sessionId), {
+            instance,
+            credentials: this.encrypt(JSON.stringify(credentials)),
+            user: status.user,
+            authType: status.authType,
+            createdAt: Date.now(),
+            lastSeenAt: Date.now(),
+        });
+        this.services.set(hashSessionId(sessionId), jiraService);
+        this.save();
+
+        console.log(`[SESSIONS] ${status.user.displayName} signed in to JIRA ${instance}`);
+        return { sessionId, status: { ...status, personal: true } };
+    }
+
+    delete(sessionId: string): void {
+        this.remove(hashSessionId(sessionId));
+        this.save();
+    }
+
+    getStatus(sessionId: string | null, instance: string): JiraConnectionStatus | null {
+        const session = this.touch(sessionId, instance);
+        return session && {
+            ok: true,
+            authType: session.authType,
+            user: session.user,
+            personal: true,
+            checkedAt: new Date(session.createdAt).toISOString(),
+        };
+    }
+
+    /**
+     * Stable identifier of a signed-in session that doesn't reveal the cookie, or null for anonymous requests.
+     */
+    getOwner(sessionId: string | null, instance: string): string | null {
+        return this.touch(sessionId, instance) && sessionId ? hashSessionId(sessionId) : null;
+    }
+
+    /**
+     * Returns the JiraService acting on behalf of the session's user, or null for anonymous requests
+     * and sessions signed in to another instance.
+     */
+    getJiraService(sessionId: string | null, instance: string): JiraService | null {
+        const session = this.touch(sessionId, instance);
+        if (!session || !sessionId) {
+            return null;
+        }
+
+        const key = hashSessionId(sessionId);
+        let jiraService = this.services.get(key);
+        if (!jiraService) {
+            let credentials: JiraCredentials;
+            try {
+                credentials = JSON.parse(this.decrypt(session.credentials));
+            } catch {
+                // SESSION_SECRET has changed since the session was stored
+                console.warn('[SESSIONS] Could not decrypt stored JIRA credentials, signing the user out');
+                this.delete(sessionId);
+                return null;
+            }
+            jiraService = new JiraService(credentials, session.instance);
+            this.services.set(key, jiraService);
+        }
+        return jiraService;
+    }
+
+    private touch(sessionId: string | null, instance: string): StoredSession | null {
+        const session = sessionId ? this.sessions.get(hashSessionId(sessionId)) : undefined;
+        if (!session || !sessionId || session.instance !== instance) {
+            return null;
+        }
+        if (this.isExpired(session)) {
+            this.delete(sessionId);
+            return null;
+        }
+        session.lastSeenAt = Date.now();
+        return session;
+    }
+
+    private isExpired(session: StoredSession): boolean {
+        return Date.now() - session.lastSeenAt > SESSION_TTL;
+    }
+
+    private remove(key: string): void {
+        this.sessions.delete(key);
+        this.services.delete(key);
+    }
+
+    // Sessions of users who never came back are not touched again, so they are removed here
+    private sweep(): void {
+        const expired = Array.from(this.sessions.entries())
+            .filter(([, session]) => this.isExpired(session))
+            .map(([key]) => key);
+        if (expired.length === 0) {
+            return;
+        }
+        expired.forEach((key) => this.remove(key));
+        this.save();
+        console.log(`[SESSIONS] Removed ${expired.length} expired JIRA sessions`);
+    }
+
+    private encrypt(value: string): EncryptedValue {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+        const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+        return {
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64'),
+        };
+    }
+
+    private decrypt(value: EncryptedValue): string {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, Buffer.from(value.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(value.tag, 'base64'));
+        return Buffer.concat([decipher.update(Buffer.from(value.data, 'base64')), decipher.final()]).toString('utf8');
+    }
+
+    private load(): void {
+        const filePath = path.resolve(process.cwd(), SESSIONS_FILE);
+        if (!fs.existsSync(filePath)) {
+            return;
+        }
+        try {
+            const stored = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, StoredSession>;
+            // Sessions stored before there were several instances belong to the single one
+            Object.entries(stored).forEach(([key, session]) => this.sessions.set(key, {
+                ...session,
+                instance: session.instance || DEFAULT_INSTANCE,
+            }));
+            console.log(`[SESSIONS] Restored ${this.sessions.size} JIRA sessions`);
+        } catch (error: any) {
+            console.warn(`[SESSIONS] Could not read ${SESSIONS_FILE}:`, error.message);
+        }
+    }
+
+    private save(): void {
+        if (!this.persistent) {
+            return;
+        }
+        const filePath = path.resolve(process.cwd(), SESSIONS_FILE);
+        try {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify(Object.fromEntries(this.sessions)), { mode: 0o600 });
+        } catch (error: any) {
+            console.warn(`[SESSIONS] Could not write ${SESSIONS_FILE}:`, error.message);
+        }
+    }
+}
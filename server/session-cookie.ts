@@ -0,0 +1,35 @@
+import type { Request, Response } from "express";
+
+const SESSION_COOKIE = 'jira_session';
+
+// Matches the idle session TTL of UserSessionStore
+const COOKIE_MAX_AGE = 12 * 60 * 60 * 1000;
+
+export function readSessionId(req: Request): string | null {
+    const cookies = (req.headers.cookie || '').split(';');
+    for (const cookie of cookies) {
+        const [name, ...value] = cookie.trim().split('=');
+        if (name === SESSION_COOKIE) {
+            try {
+                return decodeURIComponent(value.join('=')) || null;
+            } catch {
+                // A malformed cookie means no session, not a server error
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+export function setSessionCookie(req: Request, res: Response, sessionId: string): void {
+    res.cookie(SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        maxAge: COOKIE_MAX_AGE,
+    });
+}
+
+export function clearSessionCookie(res: Response): void {
+    res.clearCookie(SESSION_COOKIE);
+}
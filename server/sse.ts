@@ -0,0 +1,48 @@
+import type { Request, Response } from "express";
+
+/**
+ * Long operations stream progress as server-sent events when the client asks for text/event-stream,
+ * and answer with plain JSON otherwise.
+ */
+export function wantsEventStream(req: Request): boolean {
+    return (req.headers.accept || '').includes('text/event-stream');
+}
+
+export interface EventStream {
+    send(event: string, data: unknown): void;
+    end(): void;
+    isClosed(): boolean;
+    signal: AbortSignal; // Aborted when the client disconnects, to cancel the work behind the stream
+}
+
+export function startEventStream(res: Response): EventStream {
+    let closed = false;
+    const abortController = new AbortController();
+    // Fires when the response is finished or the client disconnects
+    res.on('close', () => {
+        closed = true;
+        abortController.abort();
+    });
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    return {
+        send(event, data) {
+            if (!closed) {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            }
+        },
+        end() {
+            if (!closed) {
+                closed = true;
+                res.end();
+            }
+        },
+        isClosed: () => closed,
+        signal: abortController.signal,
+    };
+}
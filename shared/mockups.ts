@@ -0,0 +1,71 @@
+// Links to design mockups found in the parent's mockup field and in task descriptions
+import type { MockupLink } from './schema';
+
+// [title|url] and [url] in wiki markup, then bare URLs
+const WIKI_LINK_PATTERN = /\[(?:([^\]|]*)\|)?\s*(https?:\/\/[^\]\s|]+)\s*\]/g;
+const URL_PATTERN = /https?:\/\/[^\s\]|<>"']+/g;
+// Closing punctuation of the sentence is not a part of the URL
+const TRAILING_PUNCTUATION = /[.,;:!?)}]+$/;
+
+const isFigmaUrl = (url: string) => /^https?:\/\/([a-z0-9-]+\.)*figma\.com\//i.test(url);
+
+/**
+ * Figma links are named after the file ("figma.com/design/<id>/Vacancy-page" -> "Figma: Vacancy page"),
+ * other links after the host and path.
+ */
+function getDefaultTitle(url: string): string {
+    const withoutProtocol = url.replace(/^https?:\/\//, '').replace(/[?#].*$/, '').replace(/\/$/, '');
+    if (isFigmaUrl(url)) {
+        const fileName = withoutProtocol.split('/')[3];
+        if (fileName) {
+            let name = fileName;
+            try {
+                name = decodeURIComponent(fileName);
+            } catch {
+                // Malformed escapes are shown as is
+            }
+            return `Figma: ${name.replace(/[-_]+/g, ' ').trim()}`;
+        }
+        return 'Figma';
+    }
+    return withoutProtocol.length > 60 ? `${withoutProtocol.slice(0, 57)}...` : withoutProtocol;
+}
+
+/**
+ * Finds links in wiki markup or plain text. Every URL is returned once,
+ * with the link text from the markup as the title when there is one.
+ */
+export function extractMockupLinks(text: string | null | undefined): MockupLink[] {
+    if (!text) {
+        return [];
+    }
+
+    const links = new Map<string, MockupLink>();
+    const add = (rawUrl: string, title?: string) => {
+        const url = rawUrl.replace(TRAILING_PUNCTUATION, '');
+        if (!links.has(url)) {
+            links.set(url, { url, title: title?.trim() || getDefaultTitle(url) });
+        }
+    };
+
+    const rest = text.replace(WIKI_LINK_PATTERN, (_, title: string | undefined, url: string) => {
+        add(url, title);
+        return ' ';
+    });
+    (rest.match(URL_PATTERN) || []).forEach((url) => add(url));
+
+    return Array.from(links.values());
+}
+
+/**
+ * Links of a task: its own first, then the parent's ones that are not already there.
+ */
+export function mergeMockupLinks(...groups: MockupLink[][]): MockupLink[] {
+    const links = new Map<string, MockupLink>();
+    groups.flat().forEach((link) => {
+        if (!links.has(link.url)) {
+            links.set(link.url, link);
+        }
+    });
+    return Array.from(links.values());
+}
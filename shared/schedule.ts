@@ -0,0 +1,86 @@
+// Planned dates of decomposition tasks, shared by the estimation summary and task creation
+
+export const WORKING_DAYS_PER_SP = 2; // 1 SP = 2 working days
+
+export interface ScheduleTask {
+    storyPoints: number | null; // Estimation with built-in risk; tasks without it get no dates
+    dependsOn?: number[]; // Indexes of tasks that must be finished first
+}
+
+export interface ScheduleOptions {
+    additionalRiskPercent: number;
+    parallelizationCoefficient: number;
+    from?: Date; // Work starts on the next working day, as in the delivery date estimate
+}
+
+export interface ScheduledTask {
+    startDate: string; // YYYY-MM-DD
+    dueDate: string;
+    workingDays: number;
+}
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+/**
+ * The date `workingDays` working days after `from`, skipping weekends; `from` itself is not counted.
+ */
+export function addWorkingDays(from: Date, workingDays: number): Date {
+    const date = new Date(from);
+    let daysAdded = 0;
+    while (daysAdded < workingDays) {
+        date.setDate(date.getDate() + 1);
+        if (!isWeekend(date)) {
+            daysAdded++;
+        }
+    }
+    return date;
+}
+
+// Local date, not toISOString(): Jira date fields have no time zone
+export const formatDate = (date: Date): string => [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+].join('-');
+
+/**
+ * Lays tasks out in decomposition order. With a parallelization coefficient of N, the team works on about N tasks
+ * at once: each next task starts after 1/N of the previous tasks' work is done, and a task never starts before its
+ * earlier dependencies are due. Dependencies on later tasks don't move dates: the order of the decomposition wins.
+ */
+export function buildSchedule(tasks: ScheduleTask[], options: ScheduleOptions): Array<ScheduledTask | null> {
+    const from = options.from || new Date();
+    const coefficient = Math.max(options.parallelizationCoefficient, 0.1);
+    const riskFactor = 1 + options.additionalRiskPercent / 100;
+
+    const scheduled: Array<ScheduledTask | null> = [];
+    // Last working day of every task, counted from the start
+    const dueOffsets: number[] = [];
+    let doneWork = 0;
+
+    tasks.forEach((task, index) => {
+        if (!task.storyPoints) {
+            scheduled.push(null);
+            dueOffsets.push(0);
+            return;
+        }
+
+        const days = task.storyPoints * riskFactor * WORKING_DAYS_PER_SP;
+        const dependenciesDue = (task.dependsOn || [])
+            .filter((dependency) => dependency < index)
+            .reduce((latest, dependency) => Math.max(latest, dueOffsets[dependency]), 0);
+        const startOffset = Math.max(Math.floor(doneWork / coefficient), dependenciesDue);
+        const workingDays = Math.max(1, Math.ceil(days));
+        const dueOffset = startOffset + workingDays;
+
+        doneWork += days;
+        dueOffsets.push(dueOffset);
+        scheduled.push({
+            startDate: formatDate(addWorkingDays(from, startOffset + 1)),
+            dueDate: formatDate(addWorkingDays(from, dueOffset)),
+            workingDays,
+        });
+    });
+
+    return scheduled;
+}
@@ -4,14 +4,10 @@ import { z } from "zod";
 export const JiraTaskSchema = z.object({
     key: z.string(),
     id: z.string(),
+    // Кастомные поля (декомпозиция, макеты, оценки) зависят от инстанса и описаны в config/jira.json
     fields: z.object({
         summary: z.string(),
         description: z.string().nullable().optional(),
-        customfield_36836: z.string().nullable().optional(), // Декомпозиция
-        customfield_24213: z.string().nullable().optional(), // Ссылки на макеты
-        customfield_23613: z.string().nullable().optional(), // Оценка в майках PORTFOLIO
-        customfield_23911: z.object({ id: z.string() }).nullable().optional(), // Оценка в майках HH
-        customfield_11212: z.number().nullable().optional(), // Story Points
         project: z.object({
             key: z.string(),
         }).optional(),
@@ -27,11 +23,16 @@ export const JiraTaskSchema = z.object({
         priority: z.object({
             name: z.string(),
         }).optional(),
-    }),
+    }).passthrough(),
     renderedFields: z.object({
-        description: z.string().nullable().optional(), // Rendered decomposition
-        customfield_36836: z.string().nullable().optional(), // Rendered decomposition
-    })
+        description: z.string().nullable().optional(),
+    }).passthrough()
+});
+
+export const FidelityWarningSchema = z.object({
+    kind: z.enum(["missing", "altered", "invented"]), // Строка пропущена, изменена или добавлена моделью
+    text: z.string(), // Строка оригинала, для invented — строка из ответа модели
+    llmText: z.string().optional(), // Как модель переписала строку (altered)
 });
 
 export const DecompositionBlockSchema = z.object({
@@ -48,12 +49,209 @@ export const DecompositionBlockSchema = z.object({
             estimation: z.string().nullable(), // XS, S, M, L, XL
             risk: z.string().nullable(), // XS, S, M, L
             reasoning: z.string().nullable(),
-        })
+        }),
+        dependsOn: z.array(z.number().int().min(0)).optional(), // Индексы блоков-задач, которые нужно сделать раньше
     }).nullable(),
+    // Расхождения текста блока с оригиналом после разбора LLM
+    fidelity: z.object({
+        warnings: z.array(FidelityWarningSchema),
+        restored: z.boolean(), // Текст блока заменён на фрагмент оригинала
+    }).optional(),
+});
+
+export const JiraProjectSettingsSchema = z.object({
+    issueType: z.object({
+        id: z.string(),
+    }),
+    fields: z.object({
+        estimation: z.string(), // Оценка в майках
+        storyPoints: z.string(), // Story Points
+        startDate: z.string().optional(), // Дата начала (customfield_*), если такое поле есть в проекте
+        // Майка -> ID варианта поля оценки, если createmeta недоступен (нет прав или Jira Server без этого метода)
+        estimationOptions: z.record(z.string(), z.string()).optional(),
+    }),
+});
+
+export const JiraSettingsSchema = z.object({
+    // Название инстанса в интерфейсе, по умолчанию — его имя в instances
+    label: z.string().optional(),
+    // Адрес JIRA; если не задан, берётся из переменной <envPrefix>_HOST
+    host: z.string().url().optional(),
+    // Префикс переменных окружения с секретами инстанса: JIRA_HOST, JIRA_USER, JIRA_TOKEN... для "JIRA"
+    envPrefix: z.string().regex(/^[A-Z][A-Z0-9_]*$/).default('JIRA'),
+    // Версия REST API: "3" для Jira Cloud, где описания и текстовые поля передаются в ADF
+    apiVersion: z.enum(['2', '3']).default('2'),
+    // Способ авторизации; секреты (токены, client secret) берутся из переменных окружения
+    auth: z.discriminatedUnion('type', [
+        z.object({ type: z.literal('basic') }), // JIRA_USER + JIRA_TOKEN (пароль или API token Jira Cloud)
+        z.object({ type: z.literal('bearer') }), // Personal access token Jira Data Center в JIRA_TOKEN
+        z.object({
+            type: z.literal('oauth1'), // Application link, подпись RSA-SHA1, access token в JIRA_TOKEN
+            consumerKey: z.string(),
+            privateKeyPath: z.string(),
+        }),
+        z.object({
+            type: z.literal('oauth2'), // JIRA_OAUTH_CLIENT_SECRET + JIRA_OAUTH_REFRESH_TOKEN или готовый JIRA_TOKEN
+            tokenUrl: z.string().url(),
+            clientId: z.string(),
+        }),
+    ]).default({ type: 'basic' }),
+    // Требовать вход под своей учётной записью: общий аккаунт из переменных окружения не используется
+    requireUserLogin: z.boolean().default(false),
+    defaultProject: z.string(),
+    // Поля родительской задачи (портфеля)
+    parentFields: z.object({
+        decomposition: z.string(), // Декомпозиция
+        mockups: z.string(), // Ссылки на макеты
+        estimation: z.string(), // Оценка в майках PORTFOLIO
+        storyPoints: z.string(), // Story Points
+        // Майка портфеля -> верхняя граница итога в SP, например { "S": 10, "M": 30, "L": 60, "XL": 100 }.
+        // Шкала задач (XS = 0.5 ... XL = 5) для итогов не подходит, поэтому без шкалы майка не записывается
+        estimationScale: z.record(z.string(), z.number()).optional(),
+    }),
+    // Проекты, в которых можно заводить задачи
+    projects: z.record(z.string(), JiraProjectSettingsSchema),
+    // Как откатывать созданные задачи: удалять или переводить в статус отмены
+    rollback: z.discriminatedUnion('mode', [
+        z.object({ mode: z.literal('delete') }),
+        z.object({ mode: z.literal('transition'), status: z.string() }),
+    ]).default({ mode: 'delete' }),
+    // Как созданные задачи связываются с родительской
+    relationship: z.discriminatedUnion('type', [
+        // Связь (issue link) указанного типа: родитель — inward, задача — outward
+        z.object({ type: z.literal('link'), linkType: z.string() }),
+        // Задачи создаются как подзадачи родителя (родитель должен быть в том же проекте)
+        z.object({ type: z.literal('subtask'), issueTypeId: z.string() }),
+        // Ключ родителя записывается в поле задачи: Epic Link (customfield_*) или parent
+        z.object({ type: z.literal('field'), field: z.string() }),
+    ]).default({ type: 'link', linkType: 'Inclusion' }),
+    // Эпик между родительской задачей и созданными задачами, создаётся по флагу createEpic запроса
+    epic: z.object({
+        issueTypeId: z.string(),
+        linkField: z.string(), // Epic Link (customfield_*) в Jira Server/Data Center или parent в Jira Cloud
+        nameField: z.string().optional(), // Epic Name (customfield_*), обязателен для эпиков Jira Server/Data Center
+        parentLinkType: z.string().default('Inclusion'), // Связь родительской задачи с эпиком: родитель — inward
+    }).optional(),
+    // Тип связи между зависимыми задачами декомпозиции: блокирующая задача — inward, зависимая — outward
+    dependencyLinkType: z.string().default('Blocks'),
+    // Повторы запросов к JIRA при 429/5xx и ограничение параллельных запросов
+    requests: z.object({
+        maxRetries: z.number().int().min(0).default(3),
+        baseDelayMs: z.number().int().min(0).default(1000), // Первая пауза, дальше удваивается
+        maxDelayMs: z.number().int().min(0).default(30000),
+        timeoutMs: z.number().int().positive().default(30000),
+        maxConcurrency: z.number().int().positive().default(4),
+        bulkChunkSize: z.number().int().positive().max(50).default(50), // Лимит /rest/api/2/issue/bulk — 50 задач
+    }).default({}),
+}).refine((settings) => Object.hasOwn(settings.projects, settings.defaultProject), {
+    message: 'defaultProject must be one of the configured projects',
+    path: ['defaultProject'],
+});
+
+// Несколько именованных инстансов JIRA в config/jira.json (иначе файл целиком — настройки одного инстанса)
+export const JiraInstancesConfigSchema = z.object({
+    defaultInstance: z.string(),
+    instances: z.record(z.string(), JiraSettingsSchema),
+}).refine((config) => Object.hasOwn(config.instances, config.defaultInstance), {
+    message: 'defaultInstance must be one of the configured instances',
+    path: ['defaultInstance'],
+});
+
+// Инстанс JIRA, доступный для выбора в интерфейсе
+export const JiraInstanceInfoSchema = z.object({
+    name: z.string(),
+    label: z.string(),
+    host: z.string(),
+});
+
+// Провайдер LLM из config/llm-providers.json
+export const LLMProviderSettingsSchema = z.object({
+    name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "Имя провайдера: строчные латинские буквы, цифры, - и _"), // Имя в API и в DEFAULT_LLM_PROVIDER
+    label: z.string().optional(),
+    type: z.enum(["openai", "anthropic"]), // Протокол: OpenAI-совместимый (в том числе Ollama, llama.cpp, vLLM) или Anthropic
+    baseUrl: z.string().url().optional(),
+    model: z.string(),
+    auth: z.object({
+        apiKeyEnv: z.string().optional(), // Переменная окружения с ключом; локальным серверам ключ не нужен
+        headers: z.record(z.string()).optional(), // Дополнительные заголовки запросов
+    }).default({}),
+    capabilities: z.object({
+        structuredOutput: z.boolean().default(true), // json_schema в OpenAI, вызов инструмента в Anthropic
+        streaming: z.boolean().default(true),
+        chunkChars: z.number().int().positive().optional(), // Размер части длинной декомпозиции, по умолчанию LLM_CHUNK_CHARS
+        maxOutputTokens: z.number().int().positive().optional(),
+    }).default({}),
+    temperature: z.number().min(0).max(2).default(0.5),
+});
+
+export const LLMProvidersConfigSchema = z.object({
+    defaultProvider: z.string().optional(), // По умолчанию DEFAULT_LLM_PROVIDER
+    providers: z.array(LLMProviderSettingsSchema).min(1),
+}).superRefine((config, context) => {
+    const names = config.providers.map((provider) => provider.name);
+    names.forEach((name, index) => {
+        if (name === "regexp" || names.indexOf(name) !== index) {
+            context.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["providers", index, "name"],
+                message: name === "regexp" ? "Имя regexp занято встроенным парсером" : `Провайдер ${name} уже описан`,
+            });
+        }
+    });
+    if (config.defaultProvider && config.defaultProvider !== "regexp" && !names.includes(config.defaultProvider)) {
+        context.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["defaultProvider"],
+            message: `Провайдер ${config.defaultProvider} не описан в providers`,
+        });
+    }
+});
+
+export const LLMProviderInfoSchema = z.object({
+    name: z.string(),
+    label: z.string(),
+    type: z.enum(["openai", "anthropic", "regexp"]),
+    model: z.string().nullable(),
+    available: z.boolean(), // Настроен и ответил на проверку
+    error: z.string().optional(), // Почему провайдер недоступен
+});
+
+// Результат проверки авторизации запросом "кто я" (/myself)
+export const JiraConnectionStatusSchema = z.object({
+    ok: z.boolean(),
+    authType: z.string(),
+    user: z.object({
+        name: z.string(), // Логин (Server) или accountId (Cloud)
+        displayName: z.string(),
+        email: z.string().optional(),
+    }).optional(),
+    error: z.string().optional(),
+    personal: z.boolean().optional(), // Пользователь вошёл со своим токеном, а не через общий аккаунт
+    checkedAt: z.string(),
+});
+
+// Вход в JIRA под своей учётной записью; user нужен только для auth.type = basic
+export const JiraLoginRequestSchema = z.object({
+    user: z.string().optional(),
+    token: z.string().min(1),
 });
 
 export const EstimationMappingSchema = z.record(z.string(), z.number());
 
+// Поля создаваемой задачи, значения по умолчанию задаются для категории репозитория в config/repository-categories.json
+export const TaskJiraFieldsSchema = z.object({
+    assignee: z.string().optional(), // name в Jira Server/Data Center, accountId в Jira Cloud (apiVersion "3")
+    components: z.array(z.string()).optional(), // Компоненты должны существовать в проекте
+    labels: z.array(z.string()).optional(),
+    fixVersion: z.string().optional(), // Название версии проекта
+});
+
+// Ссылка на макет (Figma и т.п.), прикрепляется к задаче как remote link
+export const MockupLinkSchema = z.object({
+    url: z.string().url(),
+    title: z.string(),
+});
+
 export const CreateTaskRequestSchema = z.object({
     sessionId: z.string(),
     additionalRiskPercent: z.number().min(0).max(100),
@@ -62,23 +260,193 @@ export const CreateTaskRequestSchema = z.object({
         description: z.string(),
         estimation: z.string().optional(),
         storyPoints: z.number().optional(),
-    })),
+        dependsOn: z.array(z.number().int().min(0)).optional(), // Индексы задач этого запроса, блокирующих задачу
+        sprintId: z.number().int().optional(), // Спринт задачи, если отличается от общего sprintId
+        startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // Плановые даты по расписанию, YYYY-MM-DD
+        dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+        mockups: z.array(MockupLinkSchema).optional(), // Макеты из описания задачи и родительской задачи
+    }).merge(TaskJiraFieldsSchema)),
     parentJiraKey: z.string().optional(),
+    projectKey: z.string().optional(), // По умолчанию defaultProject из config/jira.json
+    dryRun: z.boolean().optional(), // Только собрать запросы к JIRA, ничего не создавая
+    sprintId: z.number().int().optional(), // Спринт, в который переносятся созданные задачи
+    createEpic: z.boolean().optional(), // Сначала создать эпик из родительской задачи и привязать задачи к нему
+});
+
+// Варианты для автодополнения исполнителя и версии
+export const JiraUserSchema = z.object({
+    id: z.string(), // То, что передаётся в assignee
+    displayName: z.string(),
+    email: z.string().optional(),
+});
+
+export const JiraVersionSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    released: z.boolean(),
+    releaseDate: z.string().optional(),
+});
+
+// Scrum-доски проекта и их активные и будущие спринты (Jira Agile API)
+export const JiraBoardSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+});
+
+export const JiraSprintSchema = z.object({
+    id: z.number(),
+    name: z.string(),
+    state: z.enum(["active", "future"]),
+    boardId: z.number(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+});
+
+export const TaskCreationStatusSchema = z.enum(["planned", "created", "existing", "failed"]); // planned — только в dry-run
+
+export const TaskCreationResultSchema = z.object({
+    summary: z.string(),
+    status: TaskCreationStatusSchema,
+    key: z.string().optional(),
+    url: z.string().optional(),
+    error: z.string().optional(),
+    linkError: z.string().optional(), // Задача создана, но не связана с родительской
+    sprintError: z.string().optional(), // Задача создана, но не перенесена в спринт
+    mockupError: z.string().optional(), // Задача создана, но не все макеты прикреплены
+});
+
+export const TaskCreationPreviewSchema = z.object({
+    projectKey: z.string(),
+    fieldMapping: z.object({
+        issueTypeId: z.string(),
+        estimation: z.string(),
+        storyPoints: z.string(),
+        estimationOptions: z.record(z.string(), z.string()), // Майка -> ID варианта поля
+    }),
+    issues: z.array(z.object({
+        summary: z.string(),
+        payload: z.record(z.string(), z.any()),
+    })),
+    links: z.array(z.record(z.string(), z.any())),
+    sprints: z.array(z.object({ sprintId: z.number(), issues: z.array(z.string()) })),
+    remoteLinks: z.array(z.object({ issue: z.string(), payload: z.record(z.string(), z.any()) })),
+    epic: z.object({ summary: z.string(), payload: z.record(z.string(), z.any()) }).optional(),
+    warnings: z.array(z.string()),
+});
+
+// Прогресс пакетного создания, приходит после каждой порции задач
+export const TaskCreationProgressSchema = z.object({
+    chunk: z.number(), // Номер обработанной порции, с 1
+    chunks: z.number(),
+    processed: z.number(), // Задач обработано из total
+    total: z.number(),
+    created: z.number(),
+    failed: z.number(),
+});
+
+export const CreatedIssueSchema = z.object({
+    key: z.string(),
+    id: z.string(),
+    summary: z.string(),
+    url: z.string(),
 });
 
 export const TaskCreationResponseSchema = z.object({
     success: z.boolean(),
-    createdTasks: z.array(z.object({
+    createdTasks: z.array(CreatedIssueSchema),
+    epic: CreatedIssueSchema.optional(), // Эпик, созданный по флагу createEpic
+    taskResults: z.array(TaskCreationResultSchema), // По одному на каждую задачу запроса, в том же порядке
+    errors: z.array(z.string()),
+    warnings: z.array(z.string()).optional(), // Проблемы, не помешавшие созданию, например варианты майки из config/jira.json
+    batchId: z.string().optional(), // Для отката созданных задач и связей
+    retries: z.number().optional(), // Сколько запросов к JIRA пришлось повторить (429, 5xx, таймауты)
+    preview: TaskCreationPreviewSchema.optional(), // Только в dry-run
+});
+
+export const DecompositionIssueKeySchema = z.object({
+    repository: z.string().nullable(),
+    title: z.string(),
+    key: z.string(),
+});
+
+export const DecompositionKeysRequestSchema = z.object({
+    parentJiraKey: z.string(),
+    tasks: z.array(DecompositionIssueKeySchema),
+    textHash: z.string().optional(), // Для записи: textHash из предпросмотра, чтобы не записать другой diff
+});
+
+export const DecompositionChangeSchema = z.object({
+    line: z.number(), // Номер строки, начиная с 1
+    before: z.string(),
+    after: z.string(),
+});
+
+export const DecompositionKeysResponseSchema = z.object({
+    success: z.boolean(),
+    changes: z.array(DecompositionChangeSchema),
+    unmatched: z.array(DecompositionIssueKeySchema), // Задачи, для которых не нашёлся заголовок
+    updated: z.boolean(), // Записано ли поле в JIRA
+    textHash: z.string(), // SHA-256 текста поля, по которому построен diff
+});
+
+export const PushEstimationRequestSchema = z.object({
+    parentJiraKey: z.string(),
+    additionalRiskPercent: z.number().min(0).max(100),
+    estimation: z.object({
+        baseEstimation: z.number(),
+        risks: z.number(),
+        formula: z.string(),
+        riskFormula: z.string(),
+    }),
+});
+
+export const PushEstimationResponseSchema = z.object({
+    success: z.boolean(),
+    storyPoints: z.number(),
+    tShirt: z.string().nullable(), // null, если шкала parentFields.estimationScale не настроена
+    comment: z.string(),
+});
+
+export const RollbackResponseSchema = z.object({
+    success: z.boolean(),
+    mode: z.enum(["delete", "transition"]),
+    rolledBack: z.array(z.string()), // Ключи отменённых задач
+    failed: z.array(z.object({
         key: z.string(),
-        id: z.string(),
-        summary: z.string(),
-        url: z.string(),
+        error: z.string(),
     })),
-    errors: z.array(z.string()),
 });
 
 export type JiraTask = z.infer<typeof JiraTaskSchema>;
+export type FidelityWarning = z.infer<typeof FidelityWarningSchema>;
 export type DecompositionBlock = z.infer<typeof DecompositionBlockSchema>;
+export type JiraProjectSettings = z.infer<typeof JiraProjectSettingsSchema>;
+export type JiraSettings = z.infer<typeof JiraSettingsSchema>;
+export type JiraInstancesConfig = z.infer<typeof JiraInstancesConfigSchema>;
+export type JiraInstanceInfo = z.infer<typeof JiraInstanceInfoSchema>;
+export type LLMProviderSettings = z.infer<typeof LLMProviderSettingsSchema>;
+export type LLMProvidersConfig = z.infer<typeof LLMProvidersConfigSchema>;
+export type LLMProviderInfo = z.infer<typeof LLMProviderInfoSchema>;
+export type JiraConnectionStatus = z.infer<typeof JiraConnectionStatusSchema>;
+export type JiraLoginRequest = z.infer<typeof JiraLoginRequestSchema>;
 export type EstimationMapping = z.infer<typeof EstimationMappingSchema>;
+export type TaskJiraFields = z.infer<typeof TaskJiraFieldsSchema>;
+export type MockupLink = z.infer<typeof MockupLinkSchema>;
 export type CreateTaskRequest = z.infer<typeof CreateTaskRequestSchema>;
+export type JiraUser = z.infer<typeof JiraUserSchema>;
+export type JiraVersion = z.infer<typeof JiraVersionSchema>;
+export type JiraBoard = z.infer<typeof JiraBoardSchema>;
+export type JiraSprint = z.infer<typeof JiraSprintSchema>;
+export type DecompositionIssueKey = z.infer<typeof DecompositionIssueKeySchema>;
+export type DecompositionKeysRequest = z.infer<typeof DecompositionKeysRequestSchema>;
+export type DecompositionChange = z.infer<typeof DecompositionChangeSchema>;
+export type DecompositionKeysResponse = z.infer<typeof DecompositionKeysResponseSchema>;
+export type PushEstimationRequest = z.infer<typeof PushEstimationRequestSchema>;
+export type PushEstimationResponse = z.infer<typeof PushEstimationResponseSchema>;
+export type RollbackResponse = z.infer<typeof RollbackResponseSchema>;
+export type TaskCreationStatus = z.infer<typeof TaskCreationStatusSchema>;
+export type TaskCreationResult = z.infer<typeof TaskCreationResultSchema>;
+export type TaskCreationPreview = z.infer<typeof TaskCreationPreviewSchema>;
+export type TaskCreationProgress = z.infer<typeof TaskCreationProgressSchema>;
+export type CreatedIssue = z.infer<typeof CreatedIssueSchema>;
 export type TaskCreationResponse = z.infer<typeof TaskCreationResponseSchema>;
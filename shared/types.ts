@@ -14,7 +14,8 @@ export interface Estimation {
     } | null
 }
 
-export type LLMProvider = 'openai' | 'anthropic' | 'regexp';
+// 'regexp' or the name of a provider from config/llm-providers.json
+export type LLMProvider = string;
 
 export type TShirt = 'XS' | 'S' | 'M' | 'L' | 'XL';
 